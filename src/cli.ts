@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { startServer } from './server.js';
+import { config } from './utils/config.js';
+
+// Command line flags override the transport settings of the environment
+const { values: args } = parseArgs({
+  options: {
+    transport: { type: 'string' },
+    host: { type: 'string' },
+    port: { type: 'string' }
+  }
+});
+
+if (args.transport && args.transport !== 'stdio' && args.transport !== 'http') {
+  console.error('Invalid --transport, expected stdio or http');
+  process.exit(1);
+}
+
+const transport = (args.transport as 'stdio' | 'http' | undefined) ?? config.TRANSPORT;
+
+// Provider settings are optional for programmatic use, but the server needs those of its provider
+const providerSettings = {
+  brave: ['BRAVE_API_KEY', config.BRAVE_API_KEY],
+  searxng: ['SEARXNG_URL', config.SEARXNG_URL],
+  fixture: ['SEARCH_FIXTURE_FILE', config.SEARCH_FIXTURE_FILE]
+} as const;
+
+const [settingName, settingValue] = providerSettings[config.SEARCH_PROVIDER];
+if (!settingValue) {
+  console.error(`Environment validation failed: ${settingName} is required by the ${config.SEARCH_PROVIDER} search provider`);
+  process.exit(1);
+}
+
+// Display startup message with configuration
+console.error(`Starting Brave Deep Research MCP Server
+Configuration:
+- Puppeteer Headless: ${config.isHeadless}
+- Page Timeout: ${config.PAGE_TIMEOUT}ms
+- Search Provider: ${config.SEARCH_PROVIDER}
+- Debug Mode: ${config.isDebugMode}
+- Transport: ${transport}
+`);
+
+// Start the server
+startServer({
+  transport,
+  host: args.host,
+  port: args.port ? Number(args.port) : undefined
+}).catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,328 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { config, debug } from './utils/config.js';
+
+export interface HttpServerOptions {
+  host?: string;
+  port?: number;
+  // Bearer token clients must send, no authentication if empty
+  authToken?: string;
+  // Host names requests may be addressed to besides the loopback names, checked against the Host header
+  allowedHosts?: string[];
+  // Origins browsers may send requests from besides those of the allowed hosts, such as https://app.example.com
+  allowedOrigins?: string[];
+  // Most sessions open at once
+  maxSessions?: number;
+}
+
+// A connected client, whose transport has its own MCP server sharing the browser and caches of the process
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActivity: number;
+}
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Names of the loopback addresses as they appear in Host headers and origins
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Error with the HTTP status to respond with
+ */
+class HttpRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * Respond with a JSON body
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Respond with a JSON-RPC error, as MCP clients expect even for transport-level failures
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpRequestError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpRequestError(400, 'Invalid JSON in request body');
+  }
+}
+
+/**
+ * Split a comma-separated list setting
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function isLoopbackHost(host: string): boolean {
+  return host === '127.0.0.1' || host === 'localhost' || host === '::1';
+}
+
+/**
+ * Get the host name of a Host header or origin, lowercased and without the port
+ */
+function hostName(value: string): string | undefined {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check the bearer token of a request in constant time
+ */
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) {
+    return false;
+  }
+
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Serve MCP over HTTP, with streamable HTTP on /mcp, the older SSE transport on /sse and /messages,
+ * and a health check on /health
+ * Every client gets its own session and MCP server, while the browser, page pool and caches are shared,
+ * so one warm server can serve many clients. Sessions idle for longer than SESSION_IDLE_TIMEOUT are closed,
+ * and at most MAX_SESSIONS are open at once. Host and Origin headers are checked against DNS rebinding.
+ */
+export async function startHttpServer(createServer: () => Promise<Server>, options: HttpServerOptions = {}): Promise<http.Server> {
+  const host = options.host ?? config.HTTP_HOST;
+  const port = options.port ?? config.HTTP_PORT;
+  const authToken = options.authToken ?? config.AUTH_TOKEN;
+  const maxSessions = options.maxSessions ?? config.MAX_SESSIONS;
+  const allowedOrigins = new Set(options.allowedOrigins ?? parseList(config.ALLOWED_ORIGINS));
+  const sessions = new Map<string, Session>();
+  // Streamable HTTP sessions being opened, whose IDs are only assigned once their initialize request is handled
+  let pendingSessions = 0;
+
+  // Host names requests may be addressed to. Bound to a loopback address, only the loopback names and
+  // the configured hosts are, so web pages can't reach the server by rebinding their domain to 127.0.0.1.
+  // Bound to other addresses the names clients use are unknown, so only configured hosts are enforced.
+  const configuredHosts = (options.allowedHosts ?? parseList(config.ALLOWED_HOSTS)).map(hostName).filter(Boolean) as string[];
+  const allowedHosts = new Set([...(isLoopbackHost(host) ? LOOPBACK_NAMES : []), ...configuredHosts]);
+
+  // Reject requests to foreign hosts, and requests browsers send from foreign origins. Requests without
+  // an Origin don't come from web pages, and an origin is foreign unless it is on an allowed host or listed.
+  // Without known hosts, the origin must at least match the host the request is addressed to.
+  const checkOrigin = (req: IncomingMessage): void => {
+    const requestHost = hostName(req.headers.host || '');
+    if (allowedHosts.size > 0 && (!requestHost || !allowedHosts.has(requestHost))) {
+      throw new HttpRequestError(403, 'Host not allowed');
+    }
+
+    const origin = req.headers.origin;
+    if (origin === undefined || allowedOrigins.has(origin)) {
+      return;
+    }
+
+    const originHost = hostName(origin);
+    const allowed = allowedHosts.size > 0 ? !!originHost && allowedHosts.has(originHost) : originHost === requestHost;
+    if (!allowed) {
+      throw new HttpRequestError(403, 'Origin not allowed');
+    }
+  };
+
+  // Refuse new sessions beyond maxSessions, as clients that go away without ending theirs hold them until they idle out
+  const checkSessionLimit = (): void => {
+    if (sessions.size + pendingSessions >= maxSessions) {
+      throw new HttpRequestError(503, 'Too many open sessions, try again later');
+    }
+  };
+
+  // Connect a new MCP server to a transport, forgetting the session when the transport closes
+  const openSession = async (transport: Session['transport']): Promise<void> => {
+    const server = await createServer();
+
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && sessions.delete(id)) {
+        debug(`Session ${id} closed, ${sessions.size} remaining`);
+      }
+    };
+
+    await server.connect(transport);
+  };
+
+  // Find the session of a request, refreshing its activity
+  const findSession = (sessionId: string | undefined): Session | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  };
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const session = findSession(sessionId);
+
+    if (session) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpRequestError(400, 'Session uses the SSE transport');
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      throw new HttpRequestError(404, 'Session not found');
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpRequestError(400, 'No session ID, and the request is not an initialize request');
+    }
+    checkSessionLimit();
+
+    // The session ID is assigned while the initialize request is handled, until then the session counts as pending
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, lastActivity: Date.now() });
+        debug(`Session ${id} started over streamable HTTP, ${sessions.size} active`);
+      }
+    });
+
+    pendingSessions++;
+    try {
+      await openSession(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      pendingSessions--;
+    }
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      checkSessionLimit();
+      const transport = new SSEServerTransport('/messages', res);
+
+      // Registered before connecting, so the client's first message finds the session, and forgotten if that fails
+      sessions.set(transport.sessionId, { transport, lastActivity: Date.now() });
+      try {
+        await openSession(transport);
+      } catch (error) {
+        sessions.delete(transport.sessionId);
+        throw error;
+      }
+      debug(`Session ${transport.sessionId} started over SSE, ${sessions.size} active`);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const session = findSession(url.searchParams.get('sessionId') || undefined);
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        throw new HttpRequestError(404, 'Session not found');
+      }
+      await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+      return;
+    }
+
+    throw new HttpRequestError(405, 'Method not allowed');
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+
+      checkOrigin(req);
+
+      if (!isAuthorized(req, authToken)) {
+        sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === '/sse' || url.pathname === '/messages') {
+        await handleSse(req, res, url);
+      } else {
+        sendJsonRpcError(res, 404, 'Not found');
+      }
+    } catch (error) {
+      debug(`Error handling ${req.method} ${url.pathname}:`, error);
+      if (!res.headersSent) {
+        const status = error instanceof HttpRequestError ? error.status : 500;
+        sendJsonRpcError(res, status, error instanceof HttpRequestError ? error.message : 'Internal server error');
+      }
+    }
+  });
+
+  // Close streamable HTTP sessions whose clients went away without ending them,
+  // SSE sessions close with their connection
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - config.SESSION_IDLE_TIMEOUT * 1000;
+    for (const [id, session] of sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastActivity < cutoff) {
+        debug(`Closing idle session ${id}`);
+        session.transport.close().catch(error => debug(`Error closing session ${id}:`, error));
+      }
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(sweep);
+    for (const session of sessions.values()) {
+      session.transport.close().catch(() => undefined);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  if (!authToken && !isLoopbackHost(host)) {
+    console.error(`Warning: listening on ${host} without AUTH_TOKEN, any client that can reach the server can use it`);
+  }
+
+  return httpServer;
+}
@@ -1,17 +1,32 @@
-#!/usr/bin/env node
-import { startServer } from './server.js';
-import { config } from './utils/config.js';
-
-// Display startup message with configuration
-console.error(`Starting Brave Deep Research MCP Server
-Configuration:
-- Puppeteer Headless: ${config.isHeadless}
-- Page Timeout: ${config.PAGE_TIMEOUT}ms
-- Debug Mode: ${config.isDebugMode}
-`);
-
-// Start the server
-startServer().catch(error => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
\ No newline at end of file
+/**
+ * Package entry for programmatic use
+ * Exposes the search, browser, extraction and crawling layers without starting the MCP server
+ */
+export * from './services/search-provider.js';
+export { searchWithBrave, createBraveSearchProvider } from './services/brave-search.js';
+export * from './services/brave-client.js';
+export { searchWithSearxng, createSearxngSearchProvider } from './services/searxng-search.js';
+export { searchWithFixture, createFixtureSearchProvider } from './services/fixture-search.js';
+export * from './services/puppeteer.js';
+export * from './services/cache.js';
+export * from './services/deadline.js';
+export * from './services/navigation.js';
+export * from './services/link-frontier.js';
+export * from './services/domain-filter.js';
+export * from './services/robots.js';
+export * from './services/politeness.js';
+export * from './services/passages.js';
+export * from './services/budget.js';
+export * from './services/deep-search.js';
+export * from './utils/content-extractor.js';
+export * from './utils/document-extractor.js';
+export * from './utils/http.js';
+export * from './utils/url-guard.js';
+export { htmlToMarkdown } from './utils/markdown.js';
+export { findMainContent } from './utils/readability.js';
+export { getBrowser, newPage, withPage, closeBrowser, defaultBlockedResources, RESOURCE_KINDS } from './utils/browser.js';
+export type { ResourceKind, PageOptions } from './utils/browser.js';
+export { createServer, startServer } from './server.js';
+export type { ServerOptions } from './server.js';
+export { startHttpServer } from './http-server.js';
+export type { HttpServerOptions } from './http-server.js';
@@ -4,10 +4,16 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import { deepSearchTool } from './tools/deep-search.js';
-import { debug } from './utils/config.js';
+import { startHttpServer, HttpServerOptions } from './http-server.js';
+import { listTools, callTool } from './tools/index.js';
+import { config, debug } from './utils/config.js';
 import { closeBrowser } from './utils/browser.js';
 
+export interface ServerOptions extends HttpServerOptions {
+  // stdio serves the process that spawned the server, http serves any number of clients over the network
+  transport?: 'stdio' | 'http';
+}
+
 /**
  * Create and initialize the MCP server
  */
@@ -24,66 +30,76 @@ export async function createServer() {
     }
   });
   
-  // Register the tool for listing
+  // List all registered tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        {
-          name: deepSearchTool.name,
-          description: deepSearchTool.description,
-          inputSchema: deepSearchTool.inputSchema
-        }
-      ]
+      tools: listTools()
     };
   });
 
-  // Register the deep-search tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    // Only handle our tool
-    if (request.params.name !== deepSearchTool.name) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: `Unknown tool: ${request.params.name}`
-          }
-        ]
-      };
-    }
-    
-    // Execute the tool
-    const result = await deepSearchTool.handler(request.params.arguments || {});
-    return result;
+  // Dispatch tool calls through the registry, which validates the arguments,
+  // with the cancellation signal of the request and progress notifications if the client sent a progress token
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const progressToken = request.params._meta?.progressToken;
+    let lastProgress = -Infinity;
+
+    return await callTool(request.params.name, request.params.arguments, {
+      signal: extra.signal,
+      reportProgress: (progress, total, message) => {
+        if (progressToken === undefined || progress <= lastProgress || extra.signal.aborted) {
+          return;
+        }
+        lastProgress = progress;
+
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message }
+        }).catch(error => debug('Error sending progress notification:', error));
+      }
+    });
   });
   
-  debug('Registered deep-search tool');
-  
-  // Set up shutdown handler
-  const shutdown = async () => {
-    debug('Shutting down server');
-    await closeBrowser();
-    process.exit(0);
-  };
-  
-  process.on('SIGINT', shutdown);
-  process.on('SIGTERM', shutdown);
+  debug(`Registered ${listTools().length} tools`);
   
   return server;
 }
 
 /**
- * Start the server using stdio transport
+ * Start the server using the stdio transport, or the HTTP transport selected by options or TRANSPORT
  */
-export async function startServer() {
+export async function startServer(options: ServerOptions = {}) {
+  const transport = options.transport ?? config.TRANSPORT;
+
   try {
-    const server = await createServer();
-    
-    // Create and connect transport
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    let closeHttpServer: (() => void) | undefined;
+
+    if (transport === 'http') {
+      const httpServer = await startHttpServer(createServer, options);
+      closeHttpServer = () => httpServer.close();
+
+      const address = httpServer.address();
+      if (address && typeof address === 'object') {
+        const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+        console.error(`MCP server listening on http://${host}:${address.port}/mcp`);
+      }
+    } else {
+      // Create and connect transport
+      const server = await createServer();
+      await server.connect(new StdioServerTransport());
+      
+      debug('MCP server running with stdio transport');
+    }
+
+    // Set up shutdown handler
+    const shutdown = async () => {
+      debug('Shutting down server');
+      closeHttpServer?.();
+      await closeBrowser();
+      process.exit(0);
+    };
     
-    debug('MCP server running with stdio transport');
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
   } catch (error) {
     console.error('Error starting server:', error);
     await closeBrowser();
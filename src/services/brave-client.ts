@@ -0,0 +1,201 @@
+import fetch, { Response } from 'node-fetch';
+import { config, debug } from '../utils/config.js';
+
+// Backoff before the first retry, doubled for every further one and capped
+const BASE_BACKOFF = 500;
+const MAX_BACKOFF = 10000;
+
+// Window of the per-second limit in Brave's X-RateLimit-Policy header, in seconds
+const SECOND_WINDOW = 1;
+
+/**
+ * Rate limit and quota of the Brave plan, as reported by the latest API response
+ */
+export interface BraveQuota {
+  // Requests per second, BRAVE_RATE_LIMIT until a response reports the plan's limit
+  perSecondLimit: number;
+  monthlyLimit?: number;
+  monthlyRemaining?: number;
+  monthlyResetAt?: Date;
+  // When the quota was last read from a response, undefined before the first request
+  updatedAt?: Date;
+  // API requests sent, including retries
+  requests: number;
+  retries: number;
+}
+
+/**
+ * Error thrown when the monthly quota of the Brave plan is used up, which retrying can't fix
+ */
+export class BraveQuotaExceededError extends Error {
+  constructor(resetAt?: Date) {
+    super(`Brave Search API monthly quota exhausted${resetAt ? `, it resets at ${resetAt.toISOString()}` : ''}`);
+    this.name = 'BraveQuotaExceededError';
+  }
+}
+
+const quota: BraveQuota = {
+  perSecondLimit: config.BRAVE_RATE_LIMIT,
+  requests: 0,
+  retries: 0
+};
+
+// Time the next API request may start at
+let nextRequestAt = 0;
+
+/**
+ * Get the rate limit and quota tracked from the Brave API responses of this process
+ */
+export function getBraveQuota(): BraveQuota {
+  return { ...quota };
+}
+
+/**
+ * Wait for the given time, rejecting with the signal's reason if it aborts first
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for the next request slot under the per-second limit
+ * Concurrent callers reserve consecutive slots, so requests are spaced out even when started together.
+ */
+async function waitForSlot(signal?: AbortSignal): Promise<void> {
+  const interval = 1000 / Math.max(1, quota.perSecondLimit);
+  const now = Date.now();
+  const start = Math.max(now, nextRequestAt);
+  nextRequestAt = start + interval;
+
+  if (start > now) {
+    debug(`Waiting ${Math.round(start - now)}ms for the Brave rate limit`);
+    await delay(start - now, signal);
+  }
+}
+
+/**
+ * Parse a comma-separated X-RateLimit-* header, with one value per window
+ */
+function parseRateLimitHeader(value: string | null): number[] {
+  return (value || '').split(',').map(part => Number(part.split(';')[0].trim())).filter(Number.isFinite);
+}
+
+/**
+ * Update the tracked quota from the X-RateLimit-* headers of a response
+ * Brave lists the per-second window first and the monthly window second; X-RateLimit-Policy
+ * names the windows, in case a plan lists them differently.
+ */
+function updateQuota(response: Response): void {
+  const limits = parseRateLimitHeader(response.headers.get('x-ratelimit-limit'));
+  if (limits.length === 0) {
+    return;
+  }
+
+  const remaining = parseRateLimitHeader(response.headers.get('x-ratelimit-remaining'));
+  const resets = parseRateLimitHeader(response.headers.get('x-ratelimit-reset'));
+  const windows = (response.headers.get('x-ratelimit-policy') || '').split(',').map(part => Number(/w=(\d+)/.exec(part)?.[1]));
+  const secondIndex = windows.includes(SECOND_WINDOW) ? windows.indexOf(SECOND_WINDOW) : 0;
+  const monthIndex = secondIndex === 0 ? 1 : 0;
+  const now = Date.now();
+
+  if (limits[secondIndex] > 0) {
+    quota.perSecondLimit = limits[secondIndex];
+  }
+  // The per-second window is used up, so the next request waits for it to reset
+  if (remaining[secondIndex] === 0 && resets[secondIndex] !== undefined) {
+    nextRequestAt = Math.max(nextRequestAt, now + resets[secondIndex] * 1000);
+  }
+
+  if (limits[monthIndex] !== undefined) {
+    quota.monthlyLimit = limits[monthIndex];
+    quota.monthlyRemaining = remaining[monthIndex];
+    quota.monthlyResetAt = resets[monthIndex] !== undefined ? new Date(now + resets[monthIndex] * 1000) : undefined;
+  }
+  quota.updatedAt = new Date(now);
+
+  debug(`Brave quota: ${quota.monthlyRemaining ?? '?'} of ${quota.monthlyLimit ?? '?'} monthly requests remaining, ${quota.perSecondLimit} per second`);
+}
+
+/**
+ * Time to wait before a retry: exponential backoff with full jitter, or the server's Retry-After if longer
+ */
+function backoff(attempt: number, response?: Response): number {
+  const jittered = Math.random() * Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** attempt);
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  return Number.isFinite(retryAfter) && retryAfter > 0 ? Math.max(jittered, retryAfter * 1000) : jittered;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Send a request to the Brave Search API under the plan's rate limit
+ * Requests are queued to stay under the per-second limit, and 429, 5xx and network errors are retried
+ * up to BRAVE_MAX_RETRIES times with exponential backoff and jitter. Fails without a request while the
+ * monthly quota is known to be used up. Returns the successful response, or throws for any other status.
+ */
+export async function braveFetch(url: URL, apiKey: string, signal?: AbortSignal): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    if (quota.monthlyRemaining === 0 && quota.monthlyResetAt && quota.monthlyResetAt.getTime() > Date.now()) {
+      throw new BraveQuotaExceededError(quota.monthlyResetAt);
+    }
+
+    await waitForSlot(signal);
+    quota.requests++;
+
+    let response: Response | undefined;
+    let failure: string;
+    try {
+      response = await fetch(url.toString(), {
+        headers: {
+          'Accept': 'application/json',
+          'X-Subscription-Token': apiKey
+        },
+        signal
+      });
+      updateQuota(response);
+
+      if (response.ok) {
+        return response;
+      }
+
+      // Drain the failed response, so its socket goes back to the pool rather than being held while we back off
+      await response.arrayBuffer().catch(() => undefined);
+
+      failure = `Brave Search API error: ${response.status} ${response.statusText}`;
+      if (response.status === 429 && quota.monthlyRemaining === 0) {
+        throw new BraveQuotaExceededError(quota.monthlyResetAt);
+      }
+      if (!isRetryableStatus(response.status)) {
+        throw new Error(failure);
+      }
+    } catch (error) {
+      // Cancellation and errors of the checks above are final, other errors come from the network
+      if (signal?.aborted || response) {
+        throw error;
+      }
+      failure = `Brave Search API request failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (attempt >= config.BRAVE_MAX_RETRIES) {
+      throw new Error(failure);
+    }
+
+    const wait = backoff(attempt, response);
+    debug(`${failure}, retrying in ${Math.round(wait)}ms (${attempt + 1}/${config.BRAVE_MAX_RETRIES})`);
+    quota.retries++;
+    await delay(wait, signal);
+  }
+}
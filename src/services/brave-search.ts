@@ -1,71 +1,200 @@
-import fetch from 'node-fetch';
 import { config, debug } from '../utils/config.js';
+import { braveFetch } from './brave-client.js';
+import { cached } from './cache.js';
+import {
+  SearchParams,
+  SearchProvider,
+  SearchResponse,
+  SearchResult,
+  SearchResultType,
+  SearchVertical
+} from './search-provider.js';
 
-const BRAVE_SEARCH_API = 'https://api.search.brave.com/res/v1/web/search';
+const BRAVE_SEARCH_API = 'https://api.search.brave.com/res/v1';
+const SEARCH_CACHE_NAMESPACE = 'brave-search';
 
-export interface BraveSearchParams {
-  q: string;
-  count?: number;
-  offset?: number;
+// Endpoint path for each vertical, local results come from the web endpoint
+const VERTICAL_ENDPOINTS: Record<SearchVertical, string> = {
+  web: '/web/search',
+  news: '/news/search',
+  videos: '/videos/search',
+  images: '/images/search',
+  local: '/web/search'
+};
+
+// Result blocks of a web search response and the result type they contain
+const WEB_RESULT_BLOCKS: Record<string, SearchResultType> = {
+  web: 'web',
+  news: 'news',
+  videos: 'video',
+  discussions: 'discussion',
+  faq: 'faq',
+  infobox: 'infobox',
+  locations: 'location'
+};
+
+/**
+ * Transform a single Brave API result to our format
+ */
+function toSearchResult(result: any, type: SearchResultType): SearchResult {
+  return {
+    type,
+    title: result.title || result.question || '',
+    url: result.url || result.provider_url || '',
+    description: result.description || result.answer || result.long_desc || result.postal_address?.displayAddress || '',
+    age: result.age,
+    page_age: result.page_age,
+    profile_name: result.profile?.name || result.data?.forum_name,
+    site_name: result.meta_url?.hostname,
+    extra_snippets: result.extra_snippets,
+    deep_links: result.deep_results?.buttons?.map((link: any) => ({
+      title: link.title || '',
+      url: link.url || ''
+    }))
+  };
 }
 
-export interface BraveSearchResult {
-  title: string;
-  url: string;
-  description: string;
+/**
+ * Collect the results of a web search response in Brave's mixed ranking order
+ * The ranking has top, main and side sections, walked in that order. Results of the blocks it doesn't
+ * rank, or all of them if no ranking is given, follow with web results first.
+ */
+function collectWebResults(data: any): SearchResult[] {
+  const results: SearchResult[] = [];
+  const collected = new Set<any>();
+  const ranking: Array<{ type: string, index?: number, all?: boolean }> = [
+    ...(data.mixed?.top || []),
+    ...(data.mixed?.main || []),
+    ...(data.mixed?.side || [])
+  ];
+
+  const collect = (result: any, type: SearchResultType) => {
+    if (result && !collected.has(result)) {
+      collected.add(result);
+      results.push(toSearchResult(result, type));
+    }
+  };
+
+  for (const entry of ranking) {
+    const type = WEB_RESULT_BLOCKS[entry.type];
+    const blockResults: any[] = data[entry.type]?.results || [];
+
+    if (!type) {
+      continue;
+    }
+
+    const selected = entry.all || entry.index === undefined ? blockResults : [blockResults[entry.index]];
+    selected.forEach(result => collect(result, type));
+  }
+
+  for (const [block, type] of Object.entries(WEB_RESULT_BLOCKS)) {
+    (data[block]?.results || []).forEach((result: any) => collect(result, type));
+  }
+
+  return results;
 }
 
-export interface BraveSearchResponse {
-  results: BraveSearchResult[];
-  total?: number;
-  query?: string;
+/**
+ * Cache key of a search request: its URL with the query normalized and the parameters sorted
+ */
+function searchCacheKey(url: URL): string {
+  const key = new URL(url);
+  key.searchParams.set('q', (key.searchParams.get('q') || '').trim().replace(/\s+/g, ' ').toLowerCase());
+  key.searchParams.sort();
+  return key.toString();
 }
 
 /**
  * Perform a search using the Brave Search API
+ * Responses are cached for CACHE_SEARCH_TTL seconds, the cache option of the params controls how the cache is used
+ * Requests go through braveFetch, which keeps to the plan's rate limit and retries transient failures
  */
-export async function searchWithBrave(params: BraveSearchParams): Promise<BraveSearchResponse> {
-  debug(`Searching Brave for: ${params.q}`);
+export async function searchWithBrave(params: SearchParams, apiKey: string = config.BRAVE_API_KEY): Promise<SearchResponse> {
+  if (!apiKey) {
+    throw new Error('Brave Search API key is required');
+  }
   
-  const url = new URL(BRAVE_SEARCH_API);
+  const vertical = params.vertical || 'web';
+  debug(`Searching Brave ${vertical} for: ${params.q}`);
+
+  const url = new URL(BRAVE_SEARCH_API + VERTICAL_ENDPOINTS[vertical]);
   url.searchParams.append('q', params.q);
-  
+
   if (params.count) {
     url.searchParams.append('count', params.count.toString());
   }
-  
-  if (params.offset) {
+
+  // The image endpoint does not support paging
+  if (params.offset && vertical !== 'images') {
     url.searchParams.append('offset', params.offset.toString());
   }
-  
+
+  // Optional Brave parameters are passed through as-is
+  const optionalParams = ['country', 'search_lang', 'ui_lang', 'safesearch', 'freshness'] as const;
+  for (const name of optionalParams) {
+    const value = params[name];
+    if (value) {
+      url.searchParams.append(name, value);
+    }
+  }
+
+  // Result filters only apply to the web endpoint, local search is a filtered web search
+  if (vertical === 'local') {
+    url.searchParams.append('result_filter', 'locations');
+  } else if (vertical === 'web' && params.result_filter) {
+    url.searchParams.append('result_filter', params.result_filter);
+  }
+
+  if (params.extra_snippets) {
+    url.searchParams.append('extra_snippets', 'true');
+  }
+
   try {
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Accept': 'application/json',
-        'X-Subscription-Token': config.BRAVE_API_KEY
+    return await cached(SEARCH_CACHE_NAMESPACE, searchCacheKey(url), params.cache || 'use', async () => {
+      const response = await braveFetch(url, apiKey, params.signal);
+      const data = await response.json() as any;
+
+      // Transform the Brave Search API response to our format
+      let results: SearchResult[];
+      switch (vertical) {
+        case 'web':
+          results = collectWebResults(data);
+          break;
+        case 'local':
+          results = (data.locations?.results || []).map((result: any) => toSearchResult(result, 'location'));
+          break;
+        case 'news':
+          results = (data.results || []).map((result: any) => toSearchResult(result, 'news'));
+          break;
+        case 'videos':
+          results = (data.results || []).map((result: any) => toSearchResult(result, 'video'));
+          break;
+        case 'images':
+          results = (data.results || []).map((result: any) => toSearchResult(result, 'image'));
+          break;
       }
+
+      return {
+        value: {
+          results,
+          total: data.web?.totalResults || 0,
+          query: data.query?.rawQuery || params.q
+        },
+        policy: { store: true, ttl: config.CACHE_SEARCH_TTL * 1000 }
+      };
     });
-    
-    if (!response.ok) {
-      throw new Error(`Brave Search API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json() as any;
-    
-    // Transform the Brave Search API response to our format
-    const results: BraveSearchResult[] = data.web?.results?.map((result: any) => ({
-      title: result.title || '',
-      url: result.url || '',
-      description: result.description || ''
-    })) || [];
-    
-    return {
-      results,
-      total: data.web?.totalResults || 0,
-      query: data.query?.rawQuery || params.q
-    };
   } catch (error) {
     debug('Brave Search API error:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a search provider backed by the Brave Search API
+ */
+export function createBraveSearchProvider(apiKey: string = config.BRAVE_API_KEY): SearchProvider {
+  return {
+    name: 'brave',
+    search: params => searchWithBrave(params, apiKey)
+  };
+}
@@ -0,0 +1,98 @@
+// Limits of the output budget of the deep search tools, and the shortest passage excerpt worth including a page for
+export const DEFAULT_OUTPUT_CHARS = 20000;
+export const MIN_OUTPUT_CHARS = 2000;
+export const MAX_OUTPUT_CHARS = 200000;
+export const MIN_PASSAGE_CHARS = 200;
+
+/**
+ * An item competing for a share of the output budget
+ */
+export interface BudgetItem {
+  // Characters the item needs to be shown in full
+  demand: number;
+  // Characters the item needs to be shown at all
+  minimum: number;
+  // Relevance of the item, shares are proportional to it
+  weight: number;
+}
+
+/**
+ * Distribute a character budget across items by weight
+ * Items that don't fit their minimum are omitted, lowest weight first, and get 0.
+ * Items needing less than their share get their demand, the rest is shared among the others.
+ */
+export function allocateBudget(items: BudgetItem[], budget: number): number[] {
+  const allocations = items.map(() => 0);
+
+  // Include items by descending weight while their minimums fit
+  const byWeight = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => b.item.weight - a.item.weight || a.index - b.index);
+
+  let reserved = 0;
+  let active: Array<{ item: BudgetItem, index: number }> = [];
+
+  for (const entry of byWeight) {
+    const minimum = Math.min(entry.item.minimum, entry.item.demand);
+    if (reserved + minimum > budget) {
+      break;
+    }
+
+    reserved += minimum;
+    active.push(entry);
+  }
+
+  // Fill items whose demand is below their share until every remaining item wants more than it gets
+  let remaining = budget;
+
+  while (active.length > 0) {
+    const totalWeight = active.reduce((sum, entry) => sum + entry.item.weight, 0);
+    const shareOf = (entry: { item: BudgetItem }) => remaining * entry.item.weight / totalWeight;
+    const satisfied = active.filter(entry => entry.item.demand <= shareOf(entry));
+
+    if (satisfied.length === 0) {
+      // Give each item its share, but at least its minimum
+      const minimumsAboveShare = active
+        .filter(entry => entry.item.minimum > shareOf(entry))
+        .reduce((sum, entry) => sum + entry.item.minimum, 0);
+      const shareableWeight = active
+        .filter(entry => entry.item.minimum <= shareOf(entry))
+        .reduce((sum, entry) => sum + entry.item.weight, 0);
+
+      for (const entry of active) {
+        allocations[entry.index] = entry.item.minimum > shareOf(entry)
+          ? entry.item.minimum
+          : Math.max(0, Math.floor((remaining - minimumsAboveShare) * entry.item.weight / shareableWeight));
+      }
+      break;
+    }
+
+    for (const entry of satisfied) {
+      allocations[entry.index] = entry.item.demand;
+      remaining -= entry.item.demand;
+    }
+    active = active.filter(entry => !satisfied.includes(entry));
+  }
+
+  return allocations;
+}
+
+/**
+ * Trim text to at most maxLength characters, ending at a sentence boundary where possible
+ */
+export function trimToSentence(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const slice = text.slice(0, Math.max(0, maxLength - 1));
+  const sentenceEnd = slice.search(/[.!?](\s[^.!?]*)?$/);
+
+  // Only cut at a sentence if that keeps at least half of the allowed text
+  if (sentenceEnd >= maxLength / 2) {
+    return slice.slice(0, sentenceEnd + 1);
+  }
+
+  const wordEnd = slice.lastIndexOf(' ');
+  return (wordEnd >= maxLength / 2 ? slice.slice(0, wordEnd) : slice) + '…';
+}
@@ -0,0 +1,284 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config, debug } from '../utils/config.js';
+
+/**
+ * How a call uses the cache: use fresh entries, refresh them from the network, or only read from the cache
+ */
+export type CacheMode = 'use' | 'refresh' | 'only';
+
+/**
+ * A cached value with its freshness and the validators to revalidate it with
+ */
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Freshness of a response, from its Cache-Control, ETag and Last-Modified headers
+ */
+export interface CachePolicy {
+  // Whether the response may be stored at all
+  store: boolean;
+  // Milliseconds the response stays fresh
+  ttl: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Error thrown when a call restricted to the cache finds no entry
+ */
+export class CacheMissError extends Error {
+  constructor(key: string) {
+    super(`Not in the cache: ${key}`);
+    this.name = 'CacheMissError';
+  }
+}
+
+// Query parameters that only track visitors and don't change the page
+const TRACKING_PARAMETERS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i;
+
+// Eviction removes entries until the cache is this fraction of its maximum size
+const EVICTION_TARGET = 0.9;
+
+/**
+ * Cache of JSON values on disk, one file per entry, grouped by namespace
+ * Reading an entry updates its modification time, so eviction by modification time removes the least recently used.
+ * Cache failures are logged and treated as misses, they never fail the call that uses the cache.
+ */
+export class DiskCache {
+  // Total size of the entries in bytes, counted on the first write
+  private size: number | null = null;
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxBytes: number,
+    private readonly enabled: boolean = true
+  ) {}
+
+  private pathOf(namespace: string, key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, namespace, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  /**
+   * Read an entry, fresh or not
+   */
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const file = this.pathOf(namespace, key);
+
+    try {
+      const entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry<T>;
+
+      // Hash collisions are treated as misses
+      if (entry.key !== key) {
+        return undefined;
+      }
+
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => undefined);
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        debug(`Error reading cache entry ${key}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Write an entry, evicting the least recently used entries if the cache grows too large
+   */
+  async set<T>(namespace: string, key: string, entry: Omit<CacheEntry<T>, 'key'>): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const file = this.pathOf(namespace, key);
+    const data = JSON.stringify({ key, ...entry });
+
+    try {
+      if (this.size === null) {
+        this.size = (await this.listEntries()).reduce((sum, item) => sum + item.size, 0);
+      }
+
+      const previousSize = await fs.stat(file).then(stats => stats.size, () => 0);
+
+      // Write to a temporary file first, so readers never see a partial entry
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, file);
+
+      this.size += Buffer.byteLength(data) - previousSize;
+      if (this.size > this.maxBytes) {
+        await this.evict();
+      }
+    } catch (error) {
+      debug(`Error writing cache entry ${key}:`, error);
+    }
+  }
+
+  /**
+   * List the entry files with their size and last use
+   */
+  private async listEntries(): Promise<Array<{ file: string, size: number, usedAt: number }>> {
+    const entries: Array<{ file: string, size: number, usedAt: number }> = [];
+
+    const walk = async (directory: string): Promise<void> => {
+      const children = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+
+      for (const child of children) {
+        const file = path.join(directory, child.name);
+        if (child.isDirectory()) {
+          await walk(file);
+        } else if (child.name.endsWith('.json')) {
+          const stats = await fs.stat(file).catch(() => undefined);
+          if (stats) {
+            entries.push({ file, size: stats.size, usedAt: stats.mtimeMs });
+          }
+        }
+      }
+    };
+
+    await walk(this.directory);
+    return entries;
+  }
+
+  /**
+   * Remove the least recently used entries until the cache is below its maximum size
+   */
+  private async evict(): Promise<void> {
+    const entries = (await this.listEntries()).sort((a, b) => a.usedAt - b.usedAt);
+    let size = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+      if (size <= this.maxBytes * EVICTION_TARGET) {
+        break;
+      }
+
+      await fs.unlink(entry.file).catch(() => undefined);
+      size -= entry.size;
+    }
+
+    debug(`Evicted cache entries down to ${size} bytes`);
+    this.size = size;
+  }
+}
+
+/**
+ * Shared cache, configured from the environment
+ */
+export const cache = new DiskCache(config.CACHE_DIR, config.CACHE_MAX_SIZE_MB * 1024 * 1024, config.isCacheEnabled);
+
+/**
+ * Check whether an entry is still fresh
+ */
+export function isFresh(entry: CacheEntry<unknown>): boolean {
+  return entry.expiresAt > Date.now();
+}
+
+/**
+ * Work out how long a response may be cached from its headers
+ * max-age can only shorten the configured TTL, no-cache entries are stored but revalidated on every use
+ */
+export function cachePolicy(headers: { cacheControl?: string, etag?: string, lastModified?: string }, defaultTtl: number): CachePolicy {
+  const directives = (headers.cacheControl || '').toLowerCase().split(',').map(directive => directive.trim());
+  const maxAge = directives
+    .map(directive => /^(?:s-maxage|max-age)=(\d+)$/.exec(directive)?.[1])
+    .find(value => value !== undefined);
+
+  let ttl = defaultTtl;
+  if (directives.includes('no-cache')) {
+    ttl = 0;
+  } else if (maxAge !== undefined) {
+    ttl = Math.min(defaultTtl, Number(maxAge) * 1000);
+  }
+
+  return {
+    // Entries that are never fresh are only worth storing if they can be revalidated
+    store: !directives.includes('no-store') && (ttl > 0 || !!headers.etag || !!headers.lastModified),
+    ttl,
+    etag: headers.etag,
+    lastModified: headers.lastModified
+  };
+}
+
+/**
+ * Normalize a URL for use as a cache key
+ * Drops the fragment and tracking parameters and sorts the query parameters
+ */
+export function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+
+    for (const name of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMETERS.test(name)) {
+        parsed.searchParams.delete(name);
+      }
+    }
+    parsed.searchParams.sort();
+
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Get a value through the cache
+ * In use mode fresh entries are returned and missing or stale ones loaded, in refresh mode the value is always loaded,
+ * and in only mode any cached entry is returned without loading, throwing CacheMissError if there is none
+ */
+export async function cached<T>(
+  namespace: string,
+  key: string,
+  mode: CacheMode,
+  load: () => Promise<{ value: T, policy: CachePolicy }>
+): Promise<T> {
+  if (mode !== 'refresh') {
+    const entry = await cache.get<T>(namespace, key);
+
+    if (entry && (mode === 'only' || isFresh(entry))) {
+      debug(`Cache hit for ${key}`);
+      return entry.value;
+    }
+    if (mode === 'only') {
+      throw new CacheMissError(key);
+    }
+  }
+
+  const { value, policy } = await load();
+  await store(namespace, key, value, policy);
+  return value;
+}
+
+/**
+ * Store a value if its policy allows it
+ */
+export async function store<T>(namespace: string, key: string, value: T, policy: CachePolicy): Promise<void> {
+  if (!policy.store) {
+    return;
+  }
+
+  const now = Date.now();
+  await cache.set(namespace, key, {
+    value,
+    storedAt: now,
+    expiresAt: now + policy.ttl,
+    etag: policy.etag,
+    lastModified: policy.lastModified
+  });
+}
@@ -0,0 +1,66 @@
+import { config } from '../utils/config.js';
+
+// Pages are not started with less time left than this, as they could hardly finish
+export const MIN_PAGE_TIME = 2000;
+
+/**
+ * Reason a deadline's signal aborts with when its time budget runs out
+ */
+export class TimeBudgetExceededError extends Error {
+  constructor(budgetMs: number) {
+    super(`Time budget of ${budgetMs}ms exhausted`);
+    this.name = 'TimeBudgetExceededError';
+  }
+}
+
+/**
+ * Cap a time budget in milliseconds at MAX_TIME_BUDGET, which is also the default
+ */
+export function capTimeBudget(budgetMs?: number): number {
+  return Math.min(Math.max(1000, Math.floor(budgetMs ?? config.MAX_TIME_BUDGET)), config.MAX_TIME_BUDGET);
+}
+
+/**
+ * A time budget with a signal that aborts when it runs out, or when the parent signal aborts
+ * The signal's reason tells both apart: a TimeBudgetExceededError, or the reason of the parent.
+ * Call dispose() once the work is done, so the timer doesn't keep running.
+ */
+export class Deadline {
+  readonly expiresAt: number;
+  private readonly controller = new AbortController();
+  private readonly timer: NodeJS.Timeout;
+  private readonly abortWithParent = () => this.controller.abort(this.parent?.reason);
+
+  constructor(budgetMs: number, private readonly parent?: AbortSignal) {
+    this.expiresAt = Date.now() + budgetMs;
+
+    // Timers overflow beyond 2^31 - 1 milliseconds
+    this.timer = setTimeout(() => this.controller.abort(new TimeBudgetExceededError(budgetMs)), Math.min(budgetMs, 2 ** 31 - 1));
+    this.timer.unref();
+
+    if (parent?.aborted) {
+      this.abortWithParent();
+    } else {
+      parent?.addEventListener('abort', this.abortWithParent, { once: true });
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  // Milliseconds left until the budget runs out
+  get remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  // Whether the budget ran out, as opposed to the parent signal aborting
+  get expired(): boolean {
+    return this.controller.signal.reason instanceof TimeBudgetExceededError;
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.abortWithParent);
+  }
+}
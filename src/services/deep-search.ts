@@ -0,0 +1,173 @@
+import { CrawlError, CrawledPage, FetchMode, performDeepSearch, SkippedUrl } from './puppeteer.js';
+import { capTimeBudget, Deadline } from './deadline.js';
+import { DomainScope, withSiteOperators } from './domain-filter.js';
+import { scorePassages, splitPassages, topPassages } from './passages.js';
+import { createSearchProvider, SearchParams, SearchProvider, SearchResult } from './search-provider.js';
+import { ResourceKind } from '../utils/browser.js';
+import { debug } from '../utils/config.js';
+
+export const MAX_RESULTS = 10;
+export const MAX_DEPTH = 3;
+export const MAX_PASSAGES_PER_PAGE = 10;
+
+export interface DeepSearchParams extends Omit<SearchParams, 'q' | 'count' | 'offset'>, DomainScope {
+  query: string;
+  results?: number;
+  depth?: number;
+  maxLinksPerPage?: number;
+  passagesPerPage?: number;
+  mode?: FetchMode;
+  blockResources?: ResourceKind[];
+  // Called after the search and after each visit, with the steps done, an estimate of all steps and what was done
+  onProgress?: (progress: number, total: number, message: string) => void;
+  // Milliseconds the search and crawl may take, capped at MAX_TIME_BUDGET
+  timeBudgetMs?: number;
+}
+
+/**
+ * Search result with the content of its page and the related pages found from it
+ */
+export interface EnrichedSearchResult extends SearchResult {
+  extractedContent?: CrawledPage;
+  relatedPages: CrawledPage[];
+  error?: string;
+}
+
+export interface DeepSearchResponse {
+  query: string;
+  depth: number;
+  results: EnrichedSearchResult[];
+  errors: CrawlError[];
+  skipped: SkippedUrl[];
+  filtered: SkippedUrl[];
+  // Set when the time budget ran out, so not every page was visited
+  partial: boolean;
+  skippedByDeadline: number;
+  summary: string;
+}
+
+/**
+ * Search with the given provider, the one selected by SEARCH_PROVIDER by default, and crawl the results
+ * Result count, depth and time budget are capped at MAX_RESULTS, MAX_DEPTH and MAX_TIME_BUDGET
+ * The signal of the params cancels both the search and the crawl. When the time budget runs low,
+ * the pages extracted so far are returned and the response is marked as partial.
+ */
+export async function deepSearch(
+  params: DeepSearchParams,
+  provider: SearchProvider = createSearchProvider()
+): Promise<DeepSearchResponse> {
+  const {
+    query,
+    results = 3,
+    depth = 1,
+    maxLinksPerPage,
+    passagesPerPage = 3,
+    mode,
+    blockResources,
+    onProgress,
+    timeBudgetMs,
+    includeDomains,
+    excludeDomains,
+    ...searchOptions
+  } = params;
+
+  const maxResults = Math.min(Math.max(1, Math.floor(results)), MAX_RESULTS);
+  const maxDepth = Math.min(Math.max(1, Math.floor(depth)), MAX_DEPTH);
+  const deadline = new Deadline(capTimeBudget(timeBudgetMs), searchOptions.signal);
+
+  debug(`Deep search with ${provider.name} for: ${query}, results: ${maxResults}, depth: ${maxDepth}`);
+
+  // Step 1: Get initial search results, web searches may mix in other result types
+  let searchResponse;
+  try {
+    searchResponse = await provider.search({
+      ...searchOptions,
+      q: withSiteOperators(query, { includeDomains, excludeDomains }),
+      count: maxResults,
+      signal: deadline.signal
+    });
+  } finally {
+    deadline.dispose();
+  }
+  const searchResults = searchResponse.results.slice(0, maxResults);
+  const maxPages = maxResults * maxDepth;
+  onProgress?.(1, maxPages + 1, `Found ${searchResults.length} search results`);
+
+  // Step 2: Crawl the result pages
+  const { pages, errors, skipped, filtered, partial, skippedByDeadline } = await performDeepSearch(searchResults.map(result => result.url), {
+    query,
+    depth: maxDepth,
+    maxPages,
+    maxLinksPerPage,
+    mode,
+    cache: searchOptions.cache,
+    blockResources,
+    signal: searchOptions.signal,
+    onProgress: progress => onProgress?.(
+      progress.visited + 1,
+      Math.max(maxPages, progress.visited) + 1,
+      `Fetched ${progress.pages} of up to ${maxPages} pages, last visited ${progress.url}`
+    ),
+    timeBudgetMs: deadline.remaining,
+    includeDomains,
+    excludeDomains
+  });
+
+  // Step 3: Select the passages of each page that best answer the query
+  const pagePassages = pages.map(page => splitPassages(page.content));
+  scorePassages(pagePassages.flat(), query);
+  pages.forEach((page, index) => {
+    page.passages = topPassages(pagePassages[index], Math.min(Math.max(1, Math.floor(passagesPerPage)), MAX_PASSAGES_PER_PAGE));
+  });
+
+  // Step 4: Group the crawled pages by the search result they were found from,
+  // dropping results outside the domain scope, which are listed as filtered instead
+  const enrichedResults: EnrichedSearchResult[] = searchResults
+    .filter(result => !filtered.some(url => url.url === result.url && url.depth === 1))
+    .map(result => ({
+      ...result,
+      extractedContent: pages.find(page => page.url === result.url && page.depth === 1),
+      relatedPages: pages.filter(page => page.rootUrl === result.url && page.depth > 1),
+      error: errors.find(error => error.url === result.url && error.depth === 1)?.error ||
+        skipped.find(url => url.url === result.url && url.depth === 1)?.reason
+    }));
+
+  return {
+    query,
+    depth: maxDepth,
+    results: enrichedResults,
+    errors,
+    skipped,
+    filtered,
+    partial,
+    skippedByDeadline,
+    summary: generateSummary(query, enrichedResults, errors, skipped, filtered, skippedByDeadline)
+  };
+}
+
+/**
+ * Generate a summary of the deep search results
+ */
+function generateSummary(
+  query: string,
+  results: EnrichedSearchResult[],
+  errors: CrawlError[],
+  skipped: SkippedUrl[],
+  filtered: SkippedUrl[],
+  skippedByDeadline: number
+): string {
+  const successfulMainPages = results.filter(result => result.extractedContent).length;
+  const deadlinePages = skippedByDeadline > 0 ? ` The time budget ran out, so ${skippedByDeadline} pages were not visited.` : '';
+
+  if (successfulMainPages === 0) {
+    return `No valid results found for "${query}".${deadlinePages}`;
+  }
+
+  const successfulRelatedPages = results.reduce((count, result) => count + result.relatedPages.length, 0);
+  const failedRelatedPages = errors.filter(error => error.depth > 1).length;
+
+  const skippedPages = skipped.length > 0 ? ` ${skipped.length} pages were skipped as robots.txt excludes them.` : '';
+  const filteredPages = filtered.length > 0 ? ` ${filtered.length} pages were outside the allowed domains.` : '';
+
+  return `Deep search for "${query}" found ${results.length} results, with content successfully extracted from ${successfulMainPages} pages. Additionally, ${successfulRelatedPages + failedRelatedPages} related pages were analyzed, with ${successfulRelatedPages} successfully processed.${skippedPages}${filteredPages}${deadlinePages}`;
+}
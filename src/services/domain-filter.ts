@@ -0,0 +1,102 @@
+import { config } from '../utils/config.js';
+
+/**
+ * Domains a crawl is confined to or kept away from
+ */
+export interface DomainScope {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+}
+
+/**
+ * Normalize a domain pattern, accepting URLs and surrounding whitespace
+ */
+function normalizePattern(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/:].*$/, '');
+}
+
+/**
+ * Split a comma-separated list of domain patterns from the configuration
+ */
+export function parseDomainList(list: string): string[] {
+  return list.split(',').map(normalizePattern).filter(Boolean);
+}
+
+/**
+ * Check whether a host matches a domain pattern
+ * Plain domains match themselves and their subdomains, patterns with * wildcards must match the whole host
+ */
+export function hostMatches(host: string, pattern: string): boolean {
+  const domain = normalizePattern(pattern);
+  const hostname = host.toLowerCase();
+
+  if (!domain) {
+    return false;
+  }
+
+  if (domain.includes('*')) {
+    const regex = domain.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}$`).test(hostname);
+  }
+
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Create a filter for the URLs a crawl may visit, combining ALLOWED_DOMAINS and DENIED_DOMAINS
+ * from the configuration with the domains of the call
+ * The filter returns the reason a URL is filtered out, or undefined if it may be visited
+ */
+export function createDomainFilter(scope: DomainScope = {}): (url: string) => string | undefined {
+  const allowed = parseDomainList(config.ALLOWED_DOMAINS);
+  const denied = parseDomainList(config.DENIED_DOMAINS);
+  const include = (scope.includeDomains || []).map(normalizePattern).filter(Boolean);
+  const exclude = (scope.excludeDomains || []).map(normalizePattern).filter(Boolean);
+
+  return url => {
+    let host: string;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      return 'Invalid URL';
+    }
+
+    const deniedBy = denied.find(pattern => hostMatches(host, pattern));
+    if (deniedBy) {
+      return `Denied domain ${deniedBy}`;
+    }
+
+    const excludedBy = exclude.find(pattern => hostMatches(host, pattern));
+    if (excludedBy) {
+      return `Excluded domain ${excludedBy}`;
+    }
+
+    if (allowed.length > 0 && !allowed.some(pattern => hostMatches(host, pattern))) {
+      return 'Not an allowed domain';
+    }
+    if (include.length > 0 && !include.some(pattern => hostMatches(host, pattern))) {
+      return 'Not an included domain';
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * Add site: operators for the domains of a call to a search query
+ * Included domains are alternatives, excluded domains are negated. Wildcard patterns can't be
+ * expressed as operators beyond a leading *., so they are left to the crawl filter.
+ */
+export function withSiteOperators(query: string, scope: DomainScope = {}): string {
+  const toSite = (pattern: string) => normalizePattern(pattern).replace(/^\*\./, '');
+  const include = (scope.includeDomains || []).map(toSite).filter(domain => domain && !domain.includes('*'));
+  const exclude = (scope.excludeDomains || []).map(toSite).filter(domain => domain && !domain.includes('*'));
+
+  const operators = [
+    ...(include.length === 1 ? [`site:${include[0]}`] : []),
+    ...(include.length > 1 ? [`(${include.map(domain => `site:${domain}`).join(' OR ')})`] : []),
+    ...exclude.map(domain => `-site:${domain}`)
+  ];
+
+  return [query, ...operators].join(' ');
+}
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { config, debug } from '../utils/config.js';
+import { SearchParams, SearchProvider, SearchResponse } from './search-provider.js';
+
+// Query whose results are served when no other query of the fixture matches
+const FALLBACK_QUERY = '*';
+
+// A fixture file maps queries to canned results, the types of results default to web
+const fixtureSchema = z.record(z.array(z.object({
+  type: z.enum(['web', 'news', 'video', 'image', 'discussion', 'faq', 'infobox', 'location']).default('web'),
+  title: z.string(),
+  url: z.string(),
+  description: z.string().default(''),
+  age: z.string().optional(),
+  page_age: z.string().optional(),
+  profile_name: z.string().optional(),
+  site_name: z.string().optional(),
+  extra_snippets: z.array(z.string()).optional(),
+  deep_links: z.array(z.object({ title: z.string(), url: z.string() })).optional()
+})));
+
+type Fixture = z.infer<typeof fixtureSchema>;
+
+// Fixtures by file, loaded once
+const fixtures = new Map<string, Promise<Fixture>>();
+
+/**
+ * Normalize a query for matching: lowercased, whitespace collapsed and site: operators removed,
+ * so domain-scoped deep searches still find the results of their plain query
+ */
+function normalizeQuery(query: string): string {
+  return query
+    .replace(/\((?:\s*site:\S+?\s*(?:OR)?)+\)/gi, ' ')
+    .replace(/-?site:\S+/gi, ' ')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+/**
+ * Read and validate a fixture file, with its queries normalized
+ */
+async function readFixture(file: string): Promise<Fixture> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read search fixture ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = fixtureSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Invalid search fixture ${file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+  }
+
+  return Object.fromEntries(Object.entries(parsed.data).map(([query, results]) =>
+    [query === FALLBACK_QUERY ? query : normalizeQuery(query), results]));
+}
+
+function loadFixture(file: string): Promise<Fixture> {
+  let fixture = fixtures.get(file);
+  if (!fixture) {
+    fixture = readFixture(file);
+    // Failed loads are retried, so a fixed file is picked up without a restart
+    fixture.catch(() => fixtures.delete(file));
+    fixtures.set(file, fixture);
+  }
+  return fixture;
+}
+
+/**
+ * Serve canned results for a query from a JSON fixture file, without any network access
+ * The file maps queries to arrays of results, with "*" as the fallback for unknown queries.
+ * Offsets are pages of count results, like the offsets of the other providers.
+ */
+export async function searchWithFixture(params: SearchParams, file: string = config.SEARCH_FIXTURE_FILE): Promise<SearchResponse> {
+  if (!file) {
+    throw new Error('Search fixture file is required');
+  }
+
+  params.signal?.throwIfAborted();
+  const fixture = await loadFixture(file);
+  const query = normalizeQuery(params.q);
+  const results = fixture[query] ?? fixture[FALLBACK_QUERY] ?? [];
+  debug(`Serving ${results.length} fixture results for: ${params.q}`);
+
+  const count = params.count || results.length;
+  const start = (params.offset || 0) * count;
+
+  return {
+    results: results.slice(start, start + count),
+    total: results.length,
+    query: params.q
+  };
+}
+
+/**
+ * Create a search provider serving results from a fixture file, for tests and offline development
+ */
+export function createFixtureSearchProvider(file: string = config.SEARCH_FIXTURE_FILE): SearchProvider {
+  return {
+    name: 'fixture',
+    search: params => searchWithFixture(params, file)
+  };
+}
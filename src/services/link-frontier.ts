@@ -0,0 +1,162 @@
+import { PageLink } from '../utils/content-extractor.js';
+import { tokenize } from '../utils/text.js';
+
+/**
+ * A URL waiting to be visited during a deep search
+ * The rank is the path of link positions leading to it, used for stable ordering
+ */
+export interface FrontierEntry {
+  url: string;
+  currentDepth: number;
+  rootUrl: string;
+  rank: number[];
+}
+
+// Anchor texts of navigation and legal pages that rarely answer a query
+const BOILERPLATE_ANCHORS = /^(log ?in|sign ?(in|up)|register|privacy( policy)?|terms( of (use|service))?|cookies?( policy| settings)?|contact( us)?|about( us)?|imprint|impressum|careers|jobs|help|faq|subscribe|newsletter|home|menu|search|next|previous|more)$/i;
+
+// Score weights
+const ANCHOR_OVERLAP_WEIGHT = 3;
+const PATH_OVERLAP_WEIGHT = 1.5;
+const MAIN_CONTENT_BONUS = 1;
+const BOILERPLATE_PENALTY = 2;
+const POSITION_BONUS = 0.5;
+const DEPTH_PENALTY = 0.25;
+const HOST_PENALTY = 0.5;
+
+/**
+ * Compare two crawl ranks, ordering by depth first and then by discovery position
+ */
+export function compareRanks(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return a.length - b.length;
+  }
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Fraction of the query terms that occur in the given tokens
+ */
+function termOverlap(queryTerms: Set<string>, tokens: string[]): number {
+  if (queryTerms.size === 0) {
+    return 0;
+  }
+
+  const matched = new Set(tokens.filter(token => queryTerms.has(token)));
+  return matched.size / queryTerms.size;
+}
+
+/**
+ * Decode a URL path for tokenizing, keeping it as is if it is malformed
+ */
+function decodePath(url: string): string {
+  const path = new URL(url).pathname;
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Score a link by how likely it is to answer the query
+ * Uses the query-term overlap with the anchor text and URL path, and the link's position on the page
+ */
+export function scoreLink(link: PageLink, position: number, queryTerms: Set<string>): number {
+  let score = 0;
+
+  score += ANCHOR_OVERLAP_WEIGHT * termOverlap(queryTerms, tokenize(link.text));
+  score += PATH_OVERLAP_WEIGHT * termOverlap(queryTerms, tokenize(decodePath(link.url)));
+
+  // Links in the main content point to related material, links elsewhere mostly to site chrome
+  if (link.inMainContent) {
+    score += MAIN_CONTENT_BONUS + POSITION_BONUS / (1 + position / 10);
+  }
+
+  if (BOILERPLATE_ANCHORS.test(link.text.trim())) {
+    score -= BOILERPLATE_PENALTY;
+  }
+
+  return score;
+}
+
+/**
+ * Priority queue of URLs to visit
+ * Initial URLs are always visited first, linked pages by their link score, preferring hosts with fewer visits
+ */
+export class LinkFrontier {
+  private readonly queryTerms: Set<string>;
+  private readonly entries: Array<{ entry: FrontierEntry, score: number }> = [];
+  private readonly hostVisits = new Map<string, number>();
+
+  constructor(query: string = '') {
+    this.queryTerms = new Set(tokenize(query));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add an initial URL, visited before any linked page
+   */
+  addInitial(entry: FrontierEntry): void {
+    this.entries.push({ entry, score: Infinity });
+  }
+
+  /**
+   * Score the links of a visited page and add the best ones
+   */
+  addLinks(links: PageLink[], parent: FrontierEntry, maxLinks: number = Infinity): void {
+    const scored = links
+      .map((link, position) => ({
+        entry: {
+          url: link.url,
+          currentDepth: parent.currentDepth + 1,
+          rootUrl: parent.rootUrl,
+          rank: [...parent.rank, position]
+        },
+        score: scoreLink(link, position, this.queryTerms) - DEPTH_PENALTY * parent.currentDepth
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxLinks);
+
+    this.entries.push(...scored);
+  }
+
+  /**
+   * Remove and return the entry with the highest score
+   * Scores are lowered for hosts that were already visited, so the budget is spread across sites
+   */
+  pop(): FrontierEntry | undefined {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    this.entries.forEach(({ entry, score }, index) => {
+      const adjusted = score - HOST_PENALTY * (this.hostVisits.get(new URL(entry.url).host) || 0);
+      const best = this.entries[bestIndex];
+
+      if (adjusted > bestScore || (adjusted === bestScore && best && compareRanks(entry.rank, best.entry.rank) < 0)) {
+        bestIndex = index;
+        bestScore = adjusted;
+      }
+    });
+
+    if (bestIndex === -1) {
+      return undefined;
+    }
+
+    const [{ entry }] = this.entries.splice(bestIndex, 1);
+    const host = new URL(entry.url).host;
+    this.hostVisits.set(host, (this.hostVisits.get(host) || 0) + 1);
+
+    return entry;
+  }
+}
@@ -0,0 +1,176 @@
+import { HTTPResponse, Page, TimeoutError } from 'puppeteer';
+import { config, debug } from '../utils/config.js';
+import { hostMatches } from './domain-filter.js';
+
+// Client-side redirects followed while waiting for the content, before the page is taken as it is
+const MAX_CLIENT_REDIRECTS = 3;
+
+/**
+ * How to wait for the content of a site, from NAVIGATION_OVERRIDES
+ */
+export interface NavigationOverride {
+  // Selector of an element that only exists once the content has rendered
+  waitSelector?: string;
+  // Milliseconds to wait after the content is ready
+  delay?: number;
+}
+
+export interface NavigationResult {
+  response: HTTPResponse | null;
+  // Whether loading timed out, so the page was extracted as far as it had rendered
+  partial: boolean;
+}
+
+/**
+ * Get the navigation override of the most specific domain pattern matching a URL
+ */
+export function navigationOverrideFor(url: string): NavigationOverride {
+  const host = new URL(url).hostname;
+  const pattern = Object.keys(config.NAVIGATION_OVERRIDES)
+    .filter(domain => hostMatches(host, domain))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return pattern ? config.NAVIGATION_OVERRIDES[pattern] : {};
+}
+
+/**
+ * Wait until the text of the page stops changing
+ * Mutations mark the page as changed, and the length of its text is compared on each check,
+ * so pages that only swap attributes or identical nodes still count as stable.
+ * Resolves to whether the page settled before the time limit.
+ * This function runs in the page, so it must be self-contained.
+ */
+function waitForStableText(quietPeriod: number, timeout: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const start = Date.now();
+    let lastChange = start;
+    let length = document.body?.textContent?.length || 0;
+    let changed = false;
+
+    const observer = new MutationObserver(() => {
+      changed = true;
+    });
+    observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true });
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+
+      if (changed) {
+        changed = false;
+        const currentLength = document.body?.textContent?.length || 0;
+        if (currentLength !== length) {
+          length = currentLength;
+          lastChange = now;
+        }
+      }
+
+      const settled = now - lastChange >= quietPeriod;
+      if (settled || now - start >= timeout) {
+        clearInterval(interval);
+        observer.disconnect();
+        resolve(settled);
+      }
+    }, 100);
+  });
+}
+
+/**
+ * Check whether an evaluation failed because the page navigated away from the document it ran in
+ */
+function isContextDestroyed(error: unknown): boolean {
+  return error instanceof Error && /Execution context was destroyed|Cannot find context/.test(error.message);
+}
+
+/**
+ * Wait for the text of the page to settle, following client-side redirects such as location.replace,
+ * which destroy the document while it is observed
+ * Resolves to whether the text settled, or undefined if the page was still navigating at the deadline.
+ */
+async function waitForStableContent(page: Page, url: string, deadline: number): Promise<boolean | undefined> {
+  for (let redirects = 0; redirects <= MAX_CLIENT_REDIRECTS; redirects++) {
+    // Puppeteer waits forever for a timeout of 0
+    const remaining = () => Math.max(1, deadline - Date.now());
+
+    try {
+      // The document navigated to must have loaded before its text is observed
+      if (redirects > 0) {
+        await page.waitForFunction(() => document.readyState !== 'loading', { timeout: remaining() });
+      }
+      return await page.evaluate(waitForStableText, config.CONTENT_QUIET_PERIOD, remaining());
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        return undefined;
+      }
+      if (!isContextDestroyed(error)) {
+        throw error;
+      }
+
+      debug(`${url} navigated while its content was loading`);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Navigate to a URL and wait until its content is ready
+ * The page is loaded up to DOMContentLoaded, then the site's wait selector is awaited if it has one,
+ * and the text of the page must stop growing for CONTENT_QUIET_PERIOD, all within CONTENT_WAIT_TIMEOUT.
+ * Pages that time out are stopped and reported as partial rather than failing, as long as they have a body,
+ * and so are pages that keep redirecting on the client side while their content is awaited.
+ */
+export async function navigate(page: Page, url: string): Promise<NavigationResult> {
+  const override = navigationOverrideFor(url);
+  let response: HTTPResponse | null = null;
+  let partial = false;
+
+  try {
+    response = await page.goto(url, { waitUntil: 'domcontentloaded' });
+  } catch (error) {
+    if (!(error instanceof TimeoutError)) {
+      throw error;
+    }
+
+    const hasBody = await page.evaluate(() => !!document.body?.textContent?.trim()).catch(() => false);
+    if (!hasBody) {
+      throw error;
+    }
+
+    debug(`Navigation to ${url} timed out, extracting the partially loaded page`);
+    partial = true;
+  }
+
+  const deadline = Date.now() + config.CONTENT_WAIT_TIMEOUT;
+
+  if (!partial && override.waitSelector) {
+    try {
+      await page.waitForSelector(override.waitSelector, { timeout: config.CONTENT_WAIT_TIMEOUT });
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) {
+        throw error;
+      }
+
+      debug(`${override.waitSelector} did not appear on ${url}, extracting the page as it is`);
+      partial = true;
+    }
+  }
+
+  if (!partial) {
+    const settled = await waitForStableContent(page, url, deadline);
+    if (settled === undefined) {
+      debug(`${url} was still navigating after ${config.CONTENT_WAIT_TIMEOUT}ms, extracting the page as it is`);
+      partial = true;
+    } else if (!settled) {
+      debug(`Content of ${url} was still changing after ${config.CONTENT_WAIT_TIMEOUT}ms`);
+    }
+  }
+
+  if (partial) {
+    // Keep the page from changing while it is extracted
+    await page.evaluate(() => window.stop()).catch(() => undefined);
+  } else if (override.delay) {
+    await new Promise(resolve => setTimeout(resolve, override.delay));
+  }
+
+  return { response, partial };
+}
@@ -0,0 +1,145 @@
+import { tokenize } from '../utils/text.js';
+
+/**
+ * A section of a page's content, located by its heading path and character offsets
+ */
+export interface Passage {
+  text: string;
+  headingPath: string[];
+  start: number;
+  end: number;
+  score: number;
+}
+
+export interface PassageOptions {
+  minLength?: number;
+  maxLength?: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const HEADING_PATTERN = /^(#{1,6}) +(.*)$/;
+
+/**
+ * Split Markdown content into passages by headings and paragraphs
+ * Short paragraphs under the same heading are merged, long ones are split at sentence boundaries
+ */
+export function splitPassages(content: string, options: PassageOptions = {}): Passage[] {
+  const minLength = options.minLength || 200;
+  const maxLength = options.maxLength || 1000;
+  const passages: Passage[] = [];
+  const headings: Array<{ level: number, text: string }> = [];
+  let current: Passage | null = null;
+
+  const flush = () => {
+    if (current) {
+      passages.push(current);
+      current = null;
+    }
+  };
+
+  // Walk the blank-line separated blocks, keeping fenced code blocks whole, and track their offsets
+  const blockPattern = /```[^\n]*\n[\s\S]*?\n```|[^\n]+(\n[^\n]+)*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockPattern.exec(content)) !== null) {
+    const block = match[0];
+    const heading = HEADING_PATTERN.exec(block);
+
+    if (heading) {
+      flush();
+
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: heading[2].trim() });
+      continue;
+    }
+
+    // Split the block into pieces of at most maxLength characters, ending at sentences where possible
+    let offset = match.index;
+    let remaining = block;
+
+    while (remaining.length > 0) {
+      let piece = remaining;
+
+      if (piece.length > maxLength) {
+        const cut = piece.slice(0, maxLength).search(/[.!?]\s[^.!?]*$/);
+        piece = piece.slice(0, cut > minLength ? cut + 1 : maxLength);
+      }
+
+      // Merge with the current passage if both are short
+      const passage = current as Passage | null;
+      if (passage && passage.text.length < minLength && passage.text.length + piece.length <= maxLength) {
+        passage.text = content.slice(passage.start, offset + piece.length);
+        passage.end = offset + piece.length;
+      } else {
+        flush();
+        current = {
+          text: piece,
+          headingPath: headings.map(h => h.text),
+          start: offset,
+          end: offset + piece.length,
+          score: 0
+        };
+      }
+
+      // Skip the whitespace between pieces
+      const consumed = piece.length + (remaining.slice(piece.length).match(/^\s*/)?.[0].length || 0);
+      offset += consumed;
+      remaining = remaining.slice(consumed);
+    }
+  }
+
+  flush();
+  return passages;
+}
+
+/**
+ * Score passages against the query with BM25
+ * Term statistics are computed over all given passages, so passages from several pages can be compared
+ */
+export function scorePassages(passages: Passage[], query: string): void {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const passageTokens = passages.map(passage => tokenize([...passage.headingPath, passage.text].join(' ')));
+  const averageLength = passageTokens.reduce((sum, tokens) => sum + tokens.length, 0) / (passages.length || 1);
+
+  // Number of passages containing each query term
+  const documentFrequency = new Map(queryTerms.map(term => [
+    term,
+    passageTokens.filter(tokens => tokens.includes(term)).length
+  ]));
+
+  passages.forEach((passage, index) => {
+    const tokens = passageTokens[index];
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = tokens.filter(token => token === term).length;
+      if (frequency === 0) {
+        continue;
+      }
+
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * tokens.length / (averageLength || 1)));
+    }
+
+    passage.score = score;
+  });
+}
+
+/**
+ * Select the highest scoring passages, keeping their document order
+ */
+export function topPassages(passages: Passage[], count: number): Passage[] {
+  return passages
+    .map((passage, index) => ({ passage, index }))
+    .sort((a, b) => b.passage.score - a.passage.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(entry => entry.passage);
+}
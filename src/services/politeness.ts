@@ -0,0 +1,72 @@
+import { config, debug } from '../utils/config.js';
+import { hostMatches, parseDomainList } from './domain-filter.js';
+import { getRobotsTxt, RobotsOptions } from './robots.js';
+
+// Time each host's next request may start at
+const nextRequestAt = new Map<string, number>();
+
+/**
+ * Check whether a host is exempt from robots.txt and rate limits, as an internal site listed in CRAWL_EXEMPT_HOSTS
+ * Entries match the host and its subdomains, and may use * wildcards
+ */
+export function isExemptHost(url: string): boolean {
+  const host = new URL(url).hostname;
+  return parseDomainList(config.CRAWL_EXEMPT_HOSTS).some(pattern => hostMatches(host, pattern));
+}
+
+/**
+ * Check whether the crawler may visit a URL
+ * Returns the reason the URL must be skipped, or undefined if it may be visited.
+ * The cache mode and signal of the options apply to loading robots.txt, see getRobotsTxt.
+ */
+export async function checkCrawlAllowed(url: string, options: RobotsOptions = {}): Promise<string | undefined> {
+  if (isExemptHost(url)) {
+    return undefined;
+  }
+
+  const robots = await getRobotsTxt(url, options);
+  if (robots.isUnreachable) {
+    return 'robots.txt could not be fetched, so the site is not crawled';
+  }
+  if (!robots.isAllowed(url)) {
+    return `Disallowed by robots.txt for ${config.ROBOTS_USER_AGENT}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait until a request to the URL's host keeps the minimum interval to the previous one
+ * The interval is MIN_HOST_INTERVAL, or the host's robots.txt Crawl-delay if that is longer.
+ * Concurrent callers reserve consecutive slots, so requests to a host are spaced out even when started together.
+ * Rejects with the signal's reason if it aborts while waiting.
+ */
+export async function waitForHost(url: string, signal?: AbortSignal): Promise<void> {
+  if (isExemptHost(url)) {
+    return;
+  }
+
+  const host = new URL(url).host;
+  const robots = await getRobotsTxt(url, { signal });
+  const interval = Math.max(config.MIN_HOST_INTERVAL, (robots.crawlDelay || 0) * 1000);
+
+  const now = Date.now();
+  const start = Math.max(now, nextRequestAt.get(host) || 0);
+  nextRequestAt.set(host, start + interval);
+
+  if (start > now) {
+    debug(`Waiting ${start - now}ms before requesting ${url}`);
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, start - now);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
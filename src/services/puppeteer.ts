@@ -1,112 +1,528 @@
-import { getBrowser } from '../utils/browser.js';
-import { extractMainContent, extractLinks, extractMetadata } from '../utils/content-extractor.js';
+import { blockedNavigation, ResourceKind, withPage } from '../utils/browser.js';
+import { extractFromHtml, extractMainContent, extractLinks, extractMetadata, PageLink } from '../utils/content-extractor.js';
 import { config, debug } from '../utils/config.js';
+import { ContentType, contentTypeFromHeader, documentTypeOf, extractDocument, fetchDocument } from '../utils/document-extractor.js';
+import { decodeBody, fetchUrl, HttpResponse } from '../utils/http.js';
+import { assertUrlAllowed, BlockedUrlError } from '../utils/url-guard.js';
+import { cache, CacheMissError, CacheMode, cachePolicy, canonicalUrl, CacheEntry, isFresh, store } from './cache.js';
+import { Deadline, MIN_PAGE_TIME } from './deadline.js';
+import { createDomainFilter, DomainScope } from './domain-filter.js';
+import { compareRanks, FrontierEntry, LinkFrontier } from './link-frontier.js';
+import { navigate } from './navigation.js';
+import { checkCrawlAllowed, waitForHost } from './politeness.js';
+import { Passage } from './passages.js';
+
+/**
+ * How pages are loaded: over plain HTTP, in the browser, or over HTTP with
+ * escalation to the browser for pages that need JavaScript
+ */
+export type FetchMode = 'auto' | 'http' | 'browser';
 
 export interface PageContent {
   url: string;
   title: string;
   description: string;
   content: string;
-  links: Array<{ url: string, text: string }>;
+  confidence: number;
+  contentType: ContentType;
+  // How the page was actually loaded
+  fetchMode: Exclude<FetchMode, 'auto'>;
+  links: PageLink[];
+  // Set when loading timed out and the page was extracted as far as it had rendered
+  partial?: boolean;
+}
+
+export interface ExtractOptions {
+  mode?: FetchMode;
+  cache?: CacheMode;
+  // Space requests to the same host by MIN_HOST_INTERVAL or the host's Crawl-delay
+  polite?: boolean;
+  // Kinds of requests the browser aborts, BLOCK_RESOURCES by default
+  blockResources?: ResourceKind[];
+  // Cancels the extraction, aborting its requests and closing its browser page
+  signal?: AbortSignal;
+}
+
+// Caching headers of the response a page was extracted from
+interface ResponseHeaders {
+  cacheControl?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+const PAGE_CACHE_NAMESPACE = 'pages';
+
+/**
+ * A page visited during a deep search
+ */
+export interface CrawledPage extends PageContent {
+  depth: number;
+  rootUrl: string;
+  passages?: Passage[];
+}
+
+/**
+ * A page that could not be extracted during a deep search
+ */
+export interface CrawlError {
+  url: string;
+  depth: number;
+  rootUrl: string;
+  error: string;
+}
+
+/**
+ * A page the crawler did not visit, because robots.txt or the domain filter excludes it, with the reason why
+ */
+export interface SkippedUrl {
+  url: string;
+  depth: number;
+  rootUrl: string;
+  reason: string;
+}
+
+/**
+ * Progress of a deep search, reported after each visit
+ */
+export interface CrawlProgress {
+  // URL whose visit just finished
+  url: string;
+  // Visits finished so far, including failed and skipped URLs
+  visited: number;
+  // Pages extracted so far, out of at most maxPages
+  pages: number;
+  maxPages: number;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  errors: CrawlError[];
+  skipped: SkippedUrl[];
+  filtered: SkippedUrl[];
+  // Set when the time budget ran out before the crawl finished
+  partial: boolean;
+  // Pages not visited because the time budget ran out, whether cut off while loading or never started
+  skippedByDeadline: number;
 }
 
-export interface DeepSearchOptions {
+export interface DeepSearchOptions extends DomainScope {
+  query?: string;
   depth?: number;
   maxPages?: number;
+  maxLinksPerPage?: number;
+  concurrency?: number;
+  mode?: FetchMode;
+  cache?: CacheMode;
+  blockResources?: ResourceKind[];
+  signal?: AbortSignal;
+  onProgress?: (progress: CrawlProgress) => void;
+  // Milliseconds the crawl may take, unlimited by default
+  timeBudgetMs?: number;
 }
 
 /**
- * Extract content from a URL using Puppeteer
+ * Extract content from a URL over plain HTTP, or undefined if the page needs the browser
+ * PDF, text and JSON documents are extracted directly, HTML is extracted on a server-side DOM
+ * unless it looks like a JavaScript shell and escalation is allowed
  */
-export async function extractContentFromUrl(url: string): Promise<PageContent> {
-  debug(`Extracting content from URL: ${url}`);
-  
-  const browser = await getBrowser();
-  const page = await browser.newPage();
-  
+async function extractOverHttp(
+  url: string,
+  escalate: boolean,
+  signal?: AbortSignal
+): Promise<{ page: PageContent, headers: ResponseHeaders } | undefined> {
+  let response;
   try {
-    // Set default timeout
-    page.setDefaultTimeout(config.PAGE_TIMEOUT);
-    
-    // Set user agent to mimic a real browser
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
-    
-    // Navigate to the URL
-    await page.goto(url, { waitUntil: 'networkidle2' });
-    
+    response = await fetchUrl(url, {}, signal);
+  } catch (error) {
+    // Servers that refuse plain HTTP clients may still serve the browser, blocked URLs stay blocked
+    if (escalate && !(error instanceof BlockedUrlError) && !signal?.aborted) {
+      debug(`HTTP fetch of ${url} failed, escalating to the browser:`, error);
+      return undefined;
+    }
+    throw error;
+  }
+
+  return await extractResponse(url, response, escalate);
+}
+
+/**
+ * Extract content from a response downloaded over plain HTTP, or undefined if the page needs the browser
+ */
+async function extractResponse(
+  url: string,
+  response: HttpResponse,
+  escalate: boolean
+): Promise<{ page: PageContent, headers: ResponseHeaders } | undefined> {
+  const documentType = documentTypeOf(response);
+  if (documentType) {
+    return {
+      page: { url, ...await extractDocument(response.body, documentType, url, response.contentType), fetchMode: 'http' },
+      headers: response
+    };
+  }
+
+  const { javaScriptShell, ...content } = extractFromHtml(decodeBody(response), response.url);
+  if (javaScriptShell && escalate) {
+    debug(`${url} looks like a JavaScript shell, escalating to the browser`);
+    return undefined;
+  }
+
+  return { page: { url, ...content, contentType: 'html', fetchMode: 'http' }, headers: response };
+}
+
+/**
+ * Extract content from a URL by rendering it with Puppeteer
+ * Documents the browser displays are extracted from the response body, and downloads it aborts are fetched directly
+ * Pages that time out while loading are extracted as far as they rendered and marked partial.
+ */
+async function extractInBrowser(
+  url: string,
+  options: { blockResources?: ResourceKind[], signal?: AbortSignal }
+): Promise<{ page: PageContent, headers: ResponseHeaders }> {
+  return await withPage(url, async page => {
+    // Navigate to the URL and wait for its content
+    let response;
+    let partial;
+    try {
+      ({ response, partial } = await navigate(page, url));
+    } catch (error) {
+      // Report navigations the URL guard blocked, such as redirects to private addresses, with the reason
+      const blocked = blockedNavigation(page);
+      if (blocked) {
+        throw blocked;
+      }
+
+      // Chrome aborts navigations that turn into downloads, such as PDFs without a .pdf extension
+      if (error instanceof Error && error.message.includes('net::ERR_ABORTED')) {
+        const document = await fetchDocument(url, options.signal);
+        if (document) {
+          return { page: { url, ...document, fetchMode: 'http' as const }, headers: {} };
+        }
+      }
+      throw error;
+    }
+
+    // Documents rendered by the browser are extracted from the response body
+    const responseHeaders = response?.headers() || {};
+    const headers = {
+      cacheControl: responseHeaders['cache-control'],
+      etag: responseHeaders['etag'],
+      lastModified: responseHeaders['last-modified']
+    };
+
+    const documentType = contentTypeFromHeader(responseHeaders['content-type']);
+    if (response && documentType) {
+      return {
+        page: {
+          url,
+          ...await extractDocument(await response.buffer(), documentType, url, responseHeaders['content-type']),
+          fetchMode: 'browser' as const
+        },
+        headers
+      };
+    }
+
     // Extract metadata
     const metadata = await extractMetadata(page);
-    
+
     // Extract main content
-    const content = await extractMainContent(page);
-    
+    const { content, confidence } = await extractMainContent(page);
+
     // Extract links
     const links = await extractLinks(page);
-    
+
     return {
-      url,
-      title: metadata.title,
-      description: metadata.description,
-      content,
-      links
+      page: {
+        url,
+        title: metadata.title,
+        description: metadata.description,
+        content,
+        confidence,
+        contentType: 'html' as const,
+        fetchMode: 'browser' as const,
+        links,
+        ...(partial ? { partial } : {})
+      },
+      headers
     };
+  }, options);
+}
+
+/**
+ * Revalidate a stale cached page with its ETag or Last-Modified date
+ * Returns the cached page when the server confirms it is unchanged, or the new version the server sent
+ * instead when it can be extracted over HTTP. Returns undefined when the page has to be loaded again.
+ */
+async function revalidate(
+  url: string,
+  entry: CacheEntry<PageContent>,
+  mode: FetchMode,
+  signal?: AbortSignal
+): Promise<{ page: PageContent, headers: ResponseHeaders } | undefined> {
+  if (!entry.etag && !entry.lastModified) {
+    return undefined;
+  }
+
+  const headers: Record<string, string> = {};
+  if (entry.etag) {
+    headers['If-None-Match'] = entry.etag;
+  }
+  if (entry.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified;
+  }
+
+  try {
+    const response = await fetchUrl(url, headers, signal);
+    if (response.status === 304) {
+      debug(`Cached page ${url} is unchanged`);
+      return {
+        page: { ...entry.value, url },
+        headers: {
+          cacheControl: response.cacheControl,
+          etag: response.etag || entry.etag,
+          lastModified: response.lastModified || entry.lastModified
+        }
+      };
+    }
+
+    // Pages loaded in the browser are rendered again rather than taken from the plain response
+    debug(`Cached page ${url} has changed`);
+    return mode !== 'browser' ? await extractResponse(url, response, mode === 'auto') : undefined;
+  } catch (error) {
+    // Requests failing because they were cancelled report the cancellation instead
+    signal?.throwIfAborted();
+    debug(`Error revalidating ${url}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Extract content from a URL
+ * By default pages are fetched over plain HTTP first, and only rendered with Puppeteer
+ * if the fetch fails or the page needs JavaScript. The mode option forces either way.
+ * Extracted pages are cached by canonical URL and mode, stale pages are revalidated with their ETag or Last-Modified date.
+ * Polite extraction waits for its turn on the host before any request.
+ * URLs the URL guard blocks, such as private network addresses, throw a BlockedUrlError.
+ * Aborting options.signal cancels the extraction, which rejects with the signal's reason.
+ */
+export async function extractContentFromUrl(url: string, options: ExtractOptions = {}): Promise<PageContent> {
+  const mode = options.mode || 'auto';
+  const cacheMode = options.cache || 'use';
+  const key = `${mode} ${canonicalUrl(url)}`;
+  debug(`Extracting content from URL: ${url} (mode: ${mode}, cache: ${cacheMode})`);
+
+  try {
+    // The URL guard comes before the cache, so pages cached while it allowed them are not served once it
+    // doesn't. Cache-only extraction never goes to the network, so host names are not resolved for it
+    options.signal?.throwIfAborted();
+    await assertUrlAllowed(url, options.signal, { resolve: cacheMode !== 'only' });
+
+    let entry: CacheEntry<PageContent> | undefined;
+
+    if (cacheMode !== 'refresh') {
+      entry = await cache.get<PageContent>(PAGE_CACHE_NAMESPACE, key);
+
+      if (entry && (cacheMode === 'only' || isFresh(entry))) {
+        debug(`Cache hit for ${url}`);
+        return { ...entry.value, url };
+      }
+      if (cacheMode === 'only') {
+        throw new CacheMissError(url);
+      }
+    }
+
+    // Everything from here on goes to the network
+    if (options.polite) {
+      await waitForHost(url, options.signal);
+    }
+
+    const extraction = (entry ? await revalidate(url, entry, mode, options.signal) : undefined) ||
+      (mode !== 'browser' ? await extractOverHttp(url, mode === 'auto', options.signal) : undefined) ||
+      await extractInBrowser(url, { blockResources: options.blockResources, signal: options.signal });
+
+    // Partial pages are not cached, so the next request loads them again
+    if (!extraction.page.partial) {
+      await store(PAGE_CACHE_NAMESPACE, key, extraction.page, cachePolicy(extraction.headers, config.CACHE_PAGE_TTL * 1000));
+    }
+    return extraction.page;
   } catch (error) {
     debug(`Error extracting content from ${url}:`, error);
+
+    // Requests failing because they were cancelled report the cancellation instead
+    options.signal?.throwIfAborted();
     throw error;
-  } finally {
-    await page.close();
   }
 }
 
 /**
  * Perform a deep search by following links to a specified depth
+ * Depth 1 only visits the initial URLs, each further level follows their links
+ * Linked pages are visited in order of relevance to the query, in parallel,
+ * and returned in breadth-first rank order
+ * URLs disallowed by robots.txt are skipped, and requests to a host are spaced by MIN_HOST_INTERVAL or its Crawl-delay
+ * URLs outside the allowed, included or denied domains never enter the frontier
+ * Progress is reported after each visit. Aborting options.signal stops scheduling visits, cancels
+ * the ones in flight and rejects with the signal's reason once they have stopped.
+ * With a time budget, no pages are started once it runs low, and pages still loading when it runs out
+ * are cut off. The pages extracted until then are returned, marked as partial.
  */
-export async function performDeepSearch(initialUrls: string[], options: DeepSearchOptions = {}): Promise<PageContent[]> {
+export async function performDeepSearch(initialUrls: string[], options: DeepSearchOptions = {}): Promise<CrawlResult> {
   const depth = options.depth || 1;
   const maxPages = options.maxPages || 5;
+  const maxLinksPerPage = options.maxLinksPerPage || Infinity;
+  const concurrency = Math.max(1, options.concurrency || config.MAX_CONCURRENT_PAGES);
   const visitedUrls = new Set<string>();
-  const results: PageContent[] = [];
-  
-  debug(`Starting deep search with depth ${depth} and max pages ${maxPages}`);
-  
-  // Queue of URLs to visit, with their current depth
-  const queue: Array<{ url: string, currentDepth: number }> = initialUrls.map(url => ({ 
-    url, 
-    currentDepth: 1 
-  }));
-  
-  while (queue.length > 0 && results.length < maxPages) {
-    const { url, currentDepth } = queue.shift()!;
-    
-    // Skip if already visited or exceeds max pages
-    if (visitedUrls.has(url) || results.length >= maxPages) {
-      continue;
+  const pages: Array<{ rank: number[], page: CrawledPage }> = [];
+  const errors: Array<{ rank: number[], error: CrawlError }> = [];
+  const skipped: Array<{ rank: number[], url: SkippedUrl }> = [];
+  const filtered = new Map<string, SkippedUrl>();
+  const domainFilter = createDomainFilter(options);
+  const inFlight = new Set<Promise<void>>();
+  let visited = 0;
+
+  // The deadline's signal aborts with options.signal as well, so visits only need the one signal
+  const deadline = options.timeBudgetMs !== undefined ? new Deadline(options.timeBudgetMs, options.signal) : undefined;
+  const signal = deadline?.signal ?? options.signal;
+  let cutOffByDeadline = 0;
+
+  debug(`Starting deep search with depth ${depth}, max pages ${maxPages} and concurrency ${concurrency}`);
+
+  // Check a URL against the domain filter, recording it if filtered out
+  const passesFilter = (url: string, depth: number, rootUrl: string): boolean => {
+    const reason = domainFilter(url);
+    if (reason && !filtered.has(url)) {
+      debug(`Filtered ${url}: ${reason}`);
+      filtered.set(url, { url, depth, rootUrl, reason });
+    }
+    return !reason;
+  };
+
+  // Frontier of URLs to visit, starting with the initial URLs
+  const frontier = new LinkFrontier(options.query);
+  initialUrls.forEach((url, index) => {
+    if (passesFilter(url, 1, url)) {
+      frontier.addInitial({
+        url,
+        currentDepth: 1,
+        rootUrl: url,
+        rank: [index]
+      });
     }
-    
-    visitedUrls.add(url);
-    
+  });
+
+  // Visit a single URL and add its links to the frontier
+  const visit = async (entry: FrontierEntry): Promise<void> => {
+    const { url, currentDepth, rootUrl, rank } = entry;
+
     try {
+      // Blocked URLs are errors rather than skips, and never reach robots.txt. Pages only served
+      // from the cache are not requested, so their hosts are not resolved and cached robots.txt files are used
+      await assertUrlAllowed(url, signal, { resolve: options.cache !== 'only' });
+
+      // Respect robots.txt, reporting the URLs it excludes
+      const skipReason = await checkCrawlAllowed(url, { cache: options.cache, signal });
+      if (skipReason) {
+        debug(`Skipping ${url}: ${skipReason}`);
+        skipped.push({ rank, url: { url, depth: currentDepth, rootUrl, reason: skipReason } });
+        return;
+      }
+
       // Extract content from the current URL
-      const pageContent = await extractContentFromUrl(url);
-      results.push(pageContent);
-      
-      // If we haven't reached the maximum depth, add linked pages to the queue
+      const pageContent = await extractContentFromUrl(url, {
+        mode: options.mode,
+        cache: options.cache,
+        polite: true,
+        blockResources: options.blockResources,
+        signal
+      });
+      pages.push({ rank, page: { ...pageContent, depth: currentDepth, rootUrl } });
+
+      // If we haven't reached the maximum depth, add the best linked pages to the frontier
       if (currentDepth < depth) {
-        const linkedPages = pageContent.links
-          .filter(link => !visitedUrls.has(link.url))
-          .map(link => ({
-            url: link.url,
-            currentDepth: currentDepth + 1
-          }));
-        
-        // Add linked pages to the queue
-        queue.push(...linkedPages);
+        const unvisitedLinks = pageContent.links.filter(link =>
+          !visitedUrls.has(link.url) && passesFilter(link.url, currentDepth + 1, rootUrl));
+        frontier.addLinks(unvisitedLinks, entry, maxLinksPerPage);
       }
     } catch (error) {
+      if (deadline?.expired) {
+        debug(`Time budget ran out while processing ${url}`);
+        cutOffByDeadline++;
+        return;
+      }
+
       debug(`Error processing ${url}:`, error);
+      errors.push({
+        rank,
+        error: {
+          url,
+          depth: currentDepth,
+          rootUrl,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
       // Continue with the next URL
+    } finally {
+      visited++;
+      if (!signal?.aborted) {
+        options.onProgress?.({ url, visited, pages: pages.length, maxPages });
+      }
     }
+  };
+
+  // Whether enough of the time budget is left to start another page
+  const hasTime = () => !deadline || deadline.remaining >= MIN_PAGE_TIME;
+
+  while (true) {
+    // Start visits while there are free slots and the in-flight pages can't exceed the page budget
+    while (!signal?.aborted && hasTime() && frontier.size > 0 && inFlight.size < concurrency &&
+        pages.length + inFlight.size < maxPages) {
+      const item = frontier.pop()!;
+
+      // Skip if already visited
+      if (visitedUrls.has(item.url)) {
+        continue;
+      }
+
+      visitedUrls.add(item.url);
+
+      const task: Promise<void> = visit(item).finally(() => inFlight.delete(task));
+      inFlight.add(task);
+    }
+
+    if (inFlight.size === 0) {
+      break;
+    }
+
+    // Wait for any visit to finish before scheduling more
+    await Promise.race(inFlight);
   }
-  
-  return results;
-}
\ No newline at end of file
+
+  deadline?.dispose();
+  options.signal?.throwIfAborted();
+
+  // Count the queued pages the page budget would still have allowed, had there been time
+  let notStarted = 0;
+  if (!hasTime() || deadline?.expired) {
+    const queued = new Set<string>();
+    for (let entry = frontier.pop(); entry; entry = frontier.pop()) {
+      if (!visitedUrls.has(entry.url)) {
+        queued.add(entry.url);
+      }
+    }
+    notStarted = Math.min(queued.size, Math.max(0, maxPages - pages.length - cutOffByDeadline));
+  }
+
+  const skippedByDeadline = cutOffByDeadline + notStarted;
+  if (skippedByDeadline > 0) {
+    debug(`Time budget ran out, ${skippedByDeadline} pages were not visited`);
+  }
+
+  return {
+    pages: pages.sort((a, b) => compareRanks(a.rank, b.rank)).map(entry => entry.page),
+    errors: errors.sort((a, b) => compareRanks(a.rank, b.rank)).map(entry => entry.error),
+    skipped: skipped.sort((a, b) => compareRanks(a.rank, b.rank)).map(entry => entry.url),
+    filtered: Array.from(filtered.values()),
+    partial: skippedByDeadline > 0,
+    skippedByDeadline
+  };
+}
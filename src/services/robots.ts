@@ -0,0 +1,213 @@
+import { untilAborted } from '../utils/abort.js';
+import { config, debug } from '../utils/config.js';
+import { fetchUrl, HttpError } from '../utils/http.js';
+import { cache, cached, CacheMode } from './cache.js';
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+// robots.txt files are cached for a day, as RFC 9309 recommends
+const ROBOTS_TTL = 24 * 60 * 60 * 1000;
+
+// Origins whose robots.txt was unreachable are retried after this long
+const UNREACHABLE_TTL = 5 * 60 * 1000;
+
+const ROBOTS_CACHE_NAMESPACE = 'robots';
+
+export interface RobotsOptions {
+  // In only mode, robots.txt files are never downloaded
+  cache?: CacheMode;
+  // Stops waiting for the download
+  signal?: AbortSignal;
+}
+
+/**
+ * Product token of a user agent, the case-insensitive name groups are matched by, without its version
+ */
+function productToken(userAgent: string): string {
+  return userAgent.split('/')[0].trim().toLowerCase();
+}
+
+/**
+ * Rules of a robots.txt file for one user agent token, following RFC 9309
+ * The groups naming the token's product apply, or the * groups if none does. The longest matching
+ * Allow or Disallow pattern decides, Allow winning ties.
+ */
+export class RobotsTxt {
+  private readonly rules: RobotsRule[];
+  readonly crawlDelay?: number;
+
+  constructor(content: string, userAgent: string, readonly isUnreachable: boolean = false) {
+    const groups = RobotsTxt.parse(content);
+    const token = productToken(userAgent);
+
+    let matching = groups.filter(group => group.agents.includes(token));
+    if (matching.length === 0) {
+      matching = groups.filter(group => group.agents.includes('*'));
+    }
+
+    this.rules = matching.flatMap(group => group.rules);
+    this.crawlDelay = matching.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+  }
+
+  /**
+   * robots.txt of an origin that could not be fetched, which disallows everything
+   */
+  static unreachable(): RobotsTxt {
+    return new RobotsTxt('', '', true);
+  }
+
+  /**
+   * Split a robots.txt file into groups of user agents and their rules
+   */
+  private static parse(content: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let inRules = false;
+
+    for (const rawLine of content.split(/\r\n|\r|\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) {
+        continue;
+      }
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share a group
+        if (!current || inRules) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+          inRules = false;
+        }
+        current.agents.push(productToken(value));
+      } else if (current && (field === 'allow' || field === 'disallow')) {
+        inRules = true;
+
+        // An empty Disallow allows everything, so it adds no rule
+        if (value) {
+          current.rules.push({ allow: field === 'allow', pattern: value, regex: RobotsTxt.toRegex(value) });
+        }
+      } else if (current && field === 'crawl-delay') {
+        inRules = true;
+
+        const delay = Number(value);
+        if (Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Convert a path pattern with * wildcards and an optional $ end anchor to a regular expression
+   */
+  private static toRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+
+  /**
+   * Check whether a URL may be crawled
+   */
+  isAllowed(url: string): boolean {
+    const { pathname, search } = new URL(url);
+
+    if (pathname === '/robots.txt') {
+      return true;
+    }
+    if (this.isUnreachable) {
+      return false;
+    }
+
+    const path = pathname + search;
+    let decision: RobotsRule | undefined;
+
+    for (const rule of this.rules) {
+      if (!rule.regex.test(path)) {
+        continue;
+      }
+      if (!decision || rule.pattern.length > decision.pattern.length ||
+          (rule.pattern.length === decision.pattern.length && rule.allow)) {
+        decision = rule;
+      }
+    }
+
+    return !decision || decision.allow;
+  }
+}
+
+// robots.txt of each origin, kept for the process so it is parsed only once
+const robotsByOrigin = new Map<string, { robots: Promise<RobotsTxt>, expiresAt: number }>();
+
+/**
+ * Download the robots.txt of an origin through the cache
+ * A missing file (4xx) allows everything, server errors and unreachable hosts disallow everything
+ */
+async function loadRobotsTxt(origin: string): Promise<{ robots: RobotsTxt, ttl: number }> {
+  try {
+    const content = await cached(ROBOTS_CACHE_NAMESPACE, origin, 'use', async () => {
+      try {
+        const response = await fetchUrl(`${origin}/robots.txt`);
+        return { value: new TextDecoder().decode(response.body), policy: { store: true, ttl: ROBOTS_TTL } };
+      } catch (error) {
+        if (error instanceof HttpError && error.status >= 400 && error.status < 500) {
+          return { value: '', policy: { store: true, ttl: ROBOTS_TTL } };
+        }
+        throw error;
+      }
+    });
+
+    return { robots: new RobotsTxt(content, config.ROBOTS_USER_AGENT), ttl: ROBOTS_TTL };
+  } catch (error) {
+    debug(`robots.txt of ${origin} is unreachable:`, error);
+    return { robots: RobotsTxt.unreachable(), ttl: UNREACHABLE_TTL };
+  }
+}
+
+/**
+ * Get the parsed robots.txt of a URL's origin
+ * The download is shared between concurrent callers, so an aborting signal only stops this caller from
+ * waiting for it. In only cache mode, nothing is downloaded: an origin without a cached robots.txt
+ * allows everything, leaving it to the page cache whether there is anything to serve.
+ */
+export async function getRobotsTxt(url: string, options: RobotsOptions = {}): Promise<RobotsTxt> {
+  const origin = new URL(url).origin;
+  const known = robotsByOrigin.get(origin);
+
+  if (known && known.expiresAt > Date.now()) {
+    return await untilAborted(known.robots, options.signal);
+  }
+
+  if (options.cache === 'only') {
+    const entry = await cache.get<string>(ROBOTS_CACHE_NAMESPACE, origin);
+    return new RobotsTxt(entry?.value || '', config.ROBOTS_USER_AGENT);
+  }
+
+  // Share the download between concurrent callers, and expire it by how long the result is valid
+  const entry = { robots: loadRobotsTxt(origin).then(({ robots, ttl }) => {
+    entry.expiresAt = Date.now() + ttl;
+    return robots;
+  }), expiresAt: Infinity };
+  robotsByOrigin.set(origin, entry);
+
+  return await untilAborted(entry.robots, options.signal);
+}
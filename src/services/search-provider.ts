@@ -0,0 +1,77 @@
+import { config } from '../utils/config.js';
+import { createBraveSearchProvider } from './brave-search.js';
+import { CacheMode } from './cache.js';
+import { createFixtureSearchProvider } from './fixture-search.js';
+import { createSearxngSearchProvider } from './searxng-search.js';
+
+/**
+ * Search vertical, selecting the kind of results that are queried
+ */
+export type SearchVertical = 'web' | 'news' | 'videos' | 'images' | 'local';
+
+/**
+ * Kind of a single result, web search responses mix several kinds
+ */
+export type SearchResultType = 'web' | 'news' | 'video' | 'image' | 'discussion' | 'faq' | 'infobox' | 'location';
+
+export interface SearchParams {
+  q: string;
+  vertical?: SearchVertical;
+  count?: number;
+  offset?: number;
+  country?: string;
+  search_lang?: string;
+  ui_lang?: string;
+  safesearch?: 'off' | 'moderate' | 'strict';
+  freshness?: string;
+  result_filter?: string;
+  extra_snippets?: boolean;
+  // How the provider uses the response cache
+  cache?: CacheMode;
+  // Cancels the search request
+  signal?: AbortSignal;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  title: string;
+  url: string;
+  description: string;
+  age?: string;
+  page_age?: string;
+  profile_name?: string;
+  site_name?: string;
+  extra_snippets?: string[];
+  deep_links?: Array<{ title: string, url: string }>;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total?: number;
+  query?: string;
+}
+
+/**
+ * A search backend the deep search pipeline can run on
+ */
+export interface SearchProvider {
+  name: string;
+  search(params: SearchParams): Promise<SearchResponse>;
+}
+
+export type SearchProviderName = 'brave' | 'searxng' | 'fixture';
+
+/**
+ * Create the search provider of the given name, with its settings from the environment
+ * Defaults to the provider selected by SEARCH_PROVIDER.
+ */
+export function createSearchProvider(name: SearchProviderName = config.SEARCH_PROVIDER): SearchProvider {
+  switch (name) {
+    case 'brave':
+      return createBraveSearchProvider();
+    case 'searxng':
+      return createSearxngSearchProvider();
+    case 'fixture':
+      return createFixtureSearchProvider();
+  }
+}
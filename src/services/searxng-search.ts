@@ -0,0 +1,130 @@
+import fetch from 'node-fetch';
+import { config, debug } from '../utils/config.js';
+import { cached } from './cache.js';
+import {
+  SearchParams,
+  SearchProvider,
+  SearchResponse,
+  SearchResult,
+  SearchResultType,
+  SearchVertical
+} from './search-provider.js';
+
+const SEARCH_CACHE_NAMESPACE = 'searxng-search';
+
+// SearXNG category queried for each vertical, and the type of its results
+const VERTICAL_CATEGORIES: Record<SearchVertical, { category: string, type: SearchResultType }> = {
+  web: { category: 'general', type: 'web' },
+  news: { category: 'news', type: 'news' },
+  videos: { category: 'videos', type: 'video' },
+  images: { category: 'images', type: 'image' },
+  local: { category: 'map', type: 'location' }
+};
+
+// SearXNG time ranges of the Brave freshness values, custom date ranges have no equivalent
+const TIME_RANGES: Record<string, string> = {
+  pd: 'day',
+  pw: 'week',
+  pm: 'month',
+  py: 'year'
+};
+
+const SAFESEARCH_LEVELS: Record<NonNullable<SearchParams['safesearch']>, string> = {
+  off: '0',
+  moderate: '1',
+  strict: '2'
+};
+
+/**
+ * Transform a single SearXNG result to our format
+ */
+function toSearchResult(result: any, type: SearchResultType): SearchResult {
+  let siteName: string | undefined;
+  try {
+    siteName = new URL(result.url).hostname;
+  } catch {
+    siteName = undefined;
+  }
+
+  return {
+    type,
+    title: result.title || '',
+    url: result.url || '',
+    description: result.content || '',
+    page_age: result.publishedDate || undefined,
+    profile_name: result.engine || undefined,
+    site_name: siteName
+  };
+}
+
+/**
+ * Perform a search on a SearXNG instance through its JSON API
+ * The instance must allow the json format in its search settings. Parameters SearXNG has no equivalent for,
+ * such as extra snippets and custom freshness ranges, are ignored. Offsets are pages, like Brave's.
+ */
+export async function searchWithSearxng(params: SearchParams, baseUrl: string = config.SEARXNG_URL): Promise<SearchResponse> {
+  if (!baseUrl) {
+    throw new Error('SearXNG URL is required');
+  }
+
+  const vertical = params.vertical || 'web';
+  const { category, type } = VERTICAL_CATEGORIES[vertical];
+  debug(`Searching SearXNG ${category} for: ${params.q}`);
+
+  const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+  url.searchParams.append('q', params.q);
+  url.searchParams.append('format', 'json');
+  url.searchParams.append('categories', category);
+  url.searchParams.append('pageno', String((params.offset || 0) + 1));
+
+  const language = params.search_lang || params.ui_lang;
+  if (language) {
+    url.searchParams.append('language', params.country ? `${language}-${params.country.toUpperCase()}` : language);
+  }
+  if (params.safesearch) {
+    url.searchParams.append('safesearch', SAFESEARCH_LEVELS[params.safesearch]);
+  }
+  if (params.freshness && TIME_RANGES[params.freshness]) {
+    url.searchParams.append('time_range', TIME_RANGES[params.freshness]);
+  }
+
+  try {
+    const response = await cached(SEARCH_CACHE_NAMESPACE, url.toString(), params.cache || 'use', async () => {
+      const response = await fetch(url.toString(), {
+        headers: { 'Accept': 'application/json' },
+        signal: params.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`SearXNG error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as any;
+
+      return {
+        value: {
+          results: (data.results || []).map((result: any) => toSearchResult(result, type)),
+          total: data.number_of_results || 0,
+          query: data.query || params.q
+        },
+        policy: { store: true, ttl: config.CACHE_SEARCH_TTL * 1000 }
+      };
+    });
+
+    // SearXNG pages have a fixed size, so the count only limits the results returned
+    return params.count ? { ...response, results: response.results.slice(0, params.count) } : response;
+  } catch (error) {
+    debug('SearXNG error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a search provider backed by a SearXNG instance
+ */
+export function createSearxngSearchProvider(baseUrl: string = config.SEARXNG_URL): SearchProvider {
+  return {
+    name: 'searxng',
+    search: params => searchWithSearxng(params, baseUrl)
+  };
+}
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { createSearchProvider } from '../services/search-provider.js';
+import { config, debug } from '../utils/config.js';
+import { registerTool } from './registry.js';
+
+/**
+ * Search tool implementation for MCP
+ * Returns the raw search results of the configured provider without visiting any pages.
+ * The tool keeps its name whatever the provider, so clients don't break when it changes.
+ */
+export const braveSearchTool = registerTool({
+  name: "brave-search",
+  description: "Search the web with the configured search provider (Brave Search by default) and return the results without visiting the pages",
+
+  // Define input schema
+  inputSchema: z.object({
+    query: z.string().min(1).describe("Search query"),
+    vertical: z.enum(['web', 'news', 'videos', 'images', 'local']).default('web').describe("Search vertical to query (default: web)"),
+    count: z.number().default(10).describe("Number of search results to return (default: 10, max: 20)"),
+    offset: z.number().default(0).describe("Page offset of the results (default: 0, max: 9)"),
+    country: z.string().length(2).optional().describe("Two-letter country code the results come from, e.g. US or DE"),
+    search_lang: z.string().optional().describe("Language of the search results, e.g. en or de"),
+    ui_lang: z.string().optional().describe("User interface language of the response, e.g. en-US"),
+    safesearch: z.enum(['off', 'moderate', 'strict']).optional().describe("Adult content filter (default: moderate)"),
+    freshness: z.string()
+      .regex(/^(pd|pw|pm|py|\d{4}-\d{2}-\d{2}to\d{4}-\d{2}-\d{2})$/, "Expected pd, pw, pm, py or YYYY-MM-DDtoYYYY-MM-DD")
+      .optional()
+      .describe("Discovery time filter: pd (24 hours), pw (7 days), pm (31 days), py (365 days) or a YYYY-MM-DDtoYYYY-MM-DD range"),
+    result_filter: z.string().optional().describe("Comma-separated result types to include in web searches, e.g. web,news,discussions"),
+    extra_snippets: z.boolean().default(false).describe("Return up to 5 additional excerpts per result (default: false)"),
+    cache: z.enum(['use', 'refresh', 'only']).default('use').describe("How the local cache is used: use returns fresh cached results, refresh ignores them and updates the cache, only never goes to the network (default: use)"),
+  }),
+
+  // Tool execution handler
+  async handler(params, context) {
+    const { query, ...options } = params;
+
+    // Cap parameters
+    const count = Math.min(Math.max(1, Math.floor(options.count)), 20);
+    const offset = Math.min(Math.max(0, Math.floor(options.offset)), 9);
+
+    debug(`Executing brave-search on ${config.SEARCH_PROVIDER} with query: ${query}, vertical: ${options.vertical}, count: ${count}, offset: ${offset}`);
+
+    const provider = createSearchProvider();
+
+    try {
+      const searchResponse = await provider.search({
+        ...options,
+        q: query,
+        count,
+        offset,
+        signal: context.signal
+      });
+
+      if (searchResponse.results.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No search results found for query: "${query}"`
+            }
+          ]
+        };
+      }
+
+      // Format the results
+      const formattedResults = searchResponse.results.map((result, index) => {
+        const source = [result.profile_name, result.site_name].filter(Boolean).join(' - ');
+        const snippets = result.extra_snippets?.map(snippet => `> ${snippet}`) || [];
+        const deepLinks = result.deep_links?.map(link => `- [${link.title}](${link.url})`) || [];
+
+        return `
+## ${index + 1}. ${result.title}
+URL: ${result.url}
+${result.type !== 'web' ? `Result Type: ${result.type}` : ''}
+${source ? `Source: ${source}` : ''}
+${result.age ? `Age: ${result.age}` : ''}
+${result.page_age ? `Page Age: ${result.page_age}` : ''}
+
+${result.description}
+${snippets.length > 0 ? `\n### Extra Snippets\n${snippets.join('\n')}` : ''}
+${deepLinks.length > 0 ? `\n### Deep Links\n${deepLinks.join('\n')}` : ''}
+        `.trim().replace(/\n{3,}/g, '\n\n');
+      });
+
+      const summary = `
+# Search Results for "${searchResponse.query}"
+Showing ${searchResponse.results.length} results from ${provider.name}
+
+${formattedResults.join('\n\n---\n\n')}
+      `.trim();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary
+          }
+        ]
+      };
+    } catch (error) {
+      debug('Search error:', error);
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `Error performing ${provider.name} search: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+});
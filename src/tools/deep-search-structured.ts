@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import { deepSearch, DeepSearchResponse, MAX_DEPTH, MAX_PASSAGES_PER_PAGE, MAX_RESULTS } from '../services/deep-search.js';
+import {
+  allocateBudget,
+  DEFAULT_OUTPUT_CHARS,
+  MAX_OUTPUT_CHARS,
+  MIN_OUTPUT_CHARS,
+  MIN_PASSAGE_CHARS,
+  trimToSentence
+} from '../services/budget.js';
+import { CrawledPage } from '../services/puppeteer.js';
+import { config, debug } from '../utils/config.js';
+import { registerTool } from './registry.js';
+
+// JSON Schema of a single crawled page, shared by results and related pages
+const crawledPageSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    confidence: { type: "number" },
+    contentType: { type: "string", enum: ["html", "pdf", "text", "json"] },
+    fetchMode: { type: "string", enum: ["http", "browser"] },
+    partial: { type: "boolean" },
+    depth: { type: "number" },
+    rootUrl: { type: "string" },
+    passages: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          headingPath: { type: "array", items: { type: "string" } },
+          start: { type: "number" },
+          end: { type: "number" },
+          score: { type: "number" }
+        },
+        required: ["text", "headingPath", "start", "end", "score"]
+      }
+    }
+  },
+  required: ["url", "title", "description", "confidence", "contentType", "fetchMode", "depth", "rootUrl", "passages"]
+};
+
+// JSON Schema of a URL the crawler skipped or filtered out, with the reason
+const skippedUrlSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    depth: { type: "number" },
+    rootUrl: { type: "string" },
+    reason: { type: "string" }
+  },
+  required: ["url", "depth", "rootUrl", "reason"]
+};
+
+/**
+ * A crawled page as returned by the tool: its most relevant passages stand in for its content and links
+ */
+type BudgetedPage = Omit<CrawledPage, 'content' | 'links'> & Required<Pick<CrawledPage, 'passages'>>;
+
+/**
+ * Strip a page of its content and links, with the given passages
+ */
+function stripPage(crawled: CrawledPage, passages: CrawledPage['passages'] = []): BudgetedPage {
+  const { content, links, ...metadata } = crawled;
+  return { ...metadata, passages };
+}
+
+/**
+ * Strip a page down to its passages, keeping those that fit in maxLength characters of JSON
+ * The last passage that doesn't fit is trimmed at a sentence boundary, later ones are dropped
+ */
+function fitPage(crawled: CrawledPage, maxLength: number): { page: BudgetedPage, truncated: boolean } {
+  const page = stripPage(crawled);
+
+  for (const passage of crawled.passages || []) {
+    page.passages.push(passage);
+    const excess = JSON.stringify(page).length - maxLength;
+    if (excess <= 0) {
+      continue;
+    }
+
+    // Trim this passage to the remaining space if enough is left to be useful, escaping in JSON may
+    // take a few more characters than the trimmed text, so it is trimmed again until it fits
+    let available = passage.text.length - excess;
+    if (available < MIN_PASSAGE_CHARS / 2 && page.passages.length > 1) {
+      page.passages.pop();
+      return { page, truncated: true };
+    }
+
+    while (true) {
+      page.passages[page.passages.length - 1] = { ...passage, text: trimToSentence(passage.text, Math.max(0, available)) };
+      const overflow = JSON.stringify(page).length - maxLength;
+      if (overflow <= 0 || available <= 0) {
+        return { page, truncated: true };
+      }
+      available -= overflow;
+    }
+  }
+
+  return { page, truncated: false };
+}
+
+/**
+ * Fit the pages of a deep search response into maxOutputChars characters of JSON
+ * Pages share the budget by the relevance of their passages, like in deep-search; pages that don't fit
+ * their minimum are left out, and both truncated and omitted pages are listed by URL.
+ */
+function fitResponse(response: DeepSearchResponse, maxOutputChars: number) {
+  const crawledPages = response.results.flatMap(result => [
+    ...(result.extractedContent ? [result.extractedContent] : []),
+    ...result.relatedPages
+  ]);
+  const items = crawledPages.map(page => {
+    const passages = page.passages || [];
+    const overhead = JSON.stringify(stripPage(page)).length + 1;
+
+    return {
+      demand: JSON.stringify(stripPage(page, passages)).length + 1,
+      minimum: overhead + MIN_PASSAGE_CHARS,
+      weight: passages.reduce((sum, passage) => sum + passage.score, 0) + 0.1
+    };
+  });
+
+  const build = (budget: number) => {
+    const allocations = allocateBudget(items, budget);
+    const fitted = new Map<CrawledPage, BudgetedPage>();
+    const truncatedPages: string[] = [];
+    const omittedPages: string[] = [];
+
+    crawledPages.forEach((crawled, index) => {
+      if (allocations[index] === 0) {
+        omittedPages.push(crawled.url);
+        return;
+      }
+
+      const { page, truncated } = fitPage(crawled, allocations[index] - 1);
+      fitted.set(crawled, page);
+      if (truncated) {
+        truncatedPages.push(crawled.url);
+      }
+    });
+
+    return {
+      ...response,
+      results: response.results.map(({ extractedContent, relatedPages, ...result }) => ({
+        ...result,
+        ...(extractedContent && fitted.has(extractedContent) ? { extractedContent: fitted.get(extractedContent) } : {}),
+        relatedPages: relatedPages.flatMap(page => fitted.has(page) ? [fitted.get(page)!] : [])
+      })),
+      truncatedPages,
+      omittedPages
+    };
+  };
+
+  // Start from the budget left by the response without pages, then take off whatever the lists
+  // of truncated and omitted pages and the JSON around the pages add until the whole response fits
+  let budget = maxOutputChars - JSON.stringify({ ...build(0), omittedPages: [] }).length;
+  let output = build(budget);
+  let excess = JSON.stringify(output).length - maxOutputChars;
+  while (excess > 0 && budget > 0) {
+    budget -= excess;
+    output = build(budget);
+    excess = JSON.stringify(output).length - maxOutputChars;
+  }
+
+  return output;
+}
+
+/**
+ * Structured deep search tool implementation for MCP
+ * Runs the deep search pipeline and returns the DeepSearchResponse as structured content, with the top
+ * passages of each page in place of its content and links, within the output budget
+ */
+export const deepSearchStructuredTool = registerTool({
+  name: "deep-search-structured",
+  description: "Perform a deep web search and return the results, related pages and extraction errors as structured JSON",
+
+  // Define input schema
+  inputSchema: z.object({
+    query: z.string().min(1).describe("Search query"),
+    results: z.number().default(3).describe(`Number of search results to process (default: 3, max: ${MAX_RESULTS})`),
+    depth: z.number().default(1).describe(`Depth of link traversal for each result (default: 1, max: ${MAX_DEPTH})`),
+    vertical: z.enum(['web', 'news', 'videos']).default('web').describe("Search vertical the initial results come from (default: web)"),
+    includeDomains: z.array(z.string()).optional().describe("Only search and crawl these domains and their subdomains, e.g. [\"python.org\"]; * wildcards are allowed"),
+    excludeDomains: z.array(z.string()).optional().describe("Never search or crawl these domains and their subdomains; * wildcards are allowed"),
+    mode: z.enum(['auto', 'http', 'browser']).default('auto').describe("How pages are loaded: auto fetches over HTTP and only uses the browser for pages that need JavaScript, http and browser force either (default: auto)"),
+    cache: z.enum(['use', 'refresh', 'only']).default('use').describe("How the local cache is used: use returns fresh cached results, refresh ignores them and updates the cache, only never goes to the network (default: use)"),
+    blockResources: z.array(z.enum(['image', 'media', 'font', 'stylesheet', 'tracker'])).optional().describe("Kinds of requests the browser skips while loading pages: image, media, font, stylesheet and tracker (ad and analytics hosts) (default: all but stylesheet)"),
+    passages: z.number().default(3).describe(`Number of passages most relevant to the query returned per page (default: 3, max: ${MAX_PASSAGES_PER_PAGE})`),
+    timeBudgetMs: z.number().optional().describe(`Time budget of the call in milliseconds; once it runs low no new pages are started and the pages extracted so far are returned, marked as partial (default and max: ${config.MAX_TIME_BUDGET})`),
+    maxOutputChars: z.number().default(DEFAULT_OUTPUT_CHARS).describe(`Maximum length of the structured content as JSON in characters, about 4 characters per token (default: ${DEFAULT_OUTPUT_CHARS}, min: ${MIN_OUTPUT_CHARS}, max: ${MAX_OUTPUT_CHARS})`),
+  }),
+
+  // Define output schema (mirrors DeepSearchResponse)
+  outputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      depth: { type: "number" },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string" },
+            url: { type: "string" },
+            title: { type: "string" },
+            description: { type: "string" },
+            extractedContent: crawledPageSchema,
+            relatedPages: { type: "array", items: crawledPageSchema },
+            error: { type: "string" }
+          },
+          required: ["type", "url", "title", "description", "relatedPages"]
+        }
+      },
+      errors: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            url: { type: "string" },
+            depth: { type: "number" },
+            rootUrl: { type: "string" },
+            error: { type: "string" }
+          },
+          required: ["url", "depth", "rootUrl", "error"]
+        }
+      },
+      skipped: { type: "array", items: skippedUrlSchema },
+      filtered: { type: "array", items: skippedUrlSchema },
+      partial: { type: "boolean" },
+      skippedByDeadline: { type: "number" },
+      summary: { type: "string" },
+      truncatedPages: { type: "array", items: { type: "string" } },
+      omittedPages: { type: "array", items: { type: "string" } }
+    },
+    required: ["query", "depth", "results", "errors", "skipped", "filtered", "partial", "skippedByDeadline", "summary", "truncatedPages", "omittedPages"]
+  },
+
+  // Tool execution handler
+  async handler(params, context) {
+    debug(`Executing deep-search-structured with query: ${params.query}, results: ${params.results}, depth: ${params.depth}`);
+
+    try {
+      const { passages, maxOutputChars, ...options } = params;
+      const response = await deepSearch({
+        ...options,
+        passagesPerPage: passages,
+        signal: context.signal,
+        onProgress: context.reportProgress
+      });
+      const output = fitResponse(response, Math.min(Math.max(MIN_OUTPUT_CHARS, Math.floor(maxOutputChars)), MAX_OUTPUT_CHARS));
+
+      // The text block only summarizes, the passages are in the structured content
+      const text = [
+        response.summary,
+        ...(output.truncatedPages.length > 0 ? [`Truncated pages: ${output.truncatedPages.join(', ')}`] : []),
+        ...(output.omittedPages.length > 0 ? [`Omitted pages: ${output.omittedPages.join(', ')}`] : [])
+      ].join('\n');
+
+      return {
+        content: [
+          {
+            type: "text",
+            text
+          }
+        ],
+        structuredContent: output
+      };
+    } catch (error) {
+      debug('Structured deep search error:', error);
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `Error performing deep search: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+});
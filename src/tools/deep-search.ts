@@ -1,43 +1,147 @@
-import { searchWithBrave } from '../services/brave-search.js';
-import { performDeepSearch } from '../services/puppeteer.js';
-import { debug } from '../utils/config.js';
+import { z } from 'zod';
+import { deepSearch, MAX_DEPTH, MAX_PASSAGES_PER_PAGE, MAX_RESULTS } from '../services/deep-search.js';
+import {
+  allocateBudget,
+  DEFAULT_OUTPUT_CHARS,
+  MAX_OUTPUT_CHARS,
+  MIN_OUTPUT_CHARS,
+  MIN_PASSAGE_CHARS,
+  trimToSentence
+} from '../services/budget.js';
+import { Passage } from '../services/passages.js';
+import { CrawledPage } from '../services/puppeteer.js';
+import { SearchResultType } from '../services/search-provider.js';
+import { config, debug } from '../utils/config.js';
+import { registerTool } from './registry.js';
+
+const PAGE_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Format a passage with its heading path and location in the page content
+ */
+function formatPassage(passage: Passage, text: string = passage.text): string {
+  const location = `characters ${passage.start}-${passage.end}`;
+  const heading = passage.headingPath.length > 0 ? `${passage.headingPath.join(' > ')} (${location})` : location;
+
+  return `### ${heading}\n${text}`;
+}
+
+/**
+ * Format the header of a crawled page, flagging search results and documents that are not regular web pages
+ */
+function formatPageHeader(page: CrawledPage, resultType?: SearchResultType): string {
+  const fields = [
+    `# ${page.title}`,
+    `URL: ${page.url}`,
+    resultType && resultType !== 'web' ? `Result Type: ${resultType}` : '',
+    page.contentType !== 'html' ? `Content Type: ${page.contentType}` : '',
+    `Fetch Mode: ${page.fetchMode}`,
+    page.partial ? 'Partial: loading timed out, so the content may be incomplete' : '',
+    page.description ? `Description: ${page.description}` : ''
+  ];
+
+  return `${fields.filter(Boolean).join('\n')}\n\n## Relevant Passages\n`;
+}
+
+/**
+ * Format the passages of a page within maxLength characters
+ * The last passage that doesn't fit is trimmed at a sentence boundary, later ones are dropped
+ */
+function formatPassages(passages: Passage[], maxLength: number): { text: string, truncated: boolean } {
+  if (passages.length === 0) {
+    return { text: 'No content found', truncated: false };
+  }
+
+  const formatted: string[] = [];
+  let used = 0;
+
+  for (const passage of passages) {
+    const separator = formatted.length > 0 ? 2 : 0;
+    const full = formatPassage(passage);
+
+    if (used + separator + full.length <= maxLength) {
+      formatted.push(full);
+      used += separator + full.length;
+      continue;
+    }
+
+    // Trim this passage to the remaining space if enough is left to be useful
+    const headingLength = formatPassage(passage, '').length;
+    const available = maxLength - used - separator - headingLength;
+    if (available >= MIN_PASSAGE_CHARS / 2 || formatted.length === 0) {
+      formatted.push(formatPassage(passage, trimToSentence(passage.text, Math.max(0, available))));
+    }
+
+    return { text: formatted.join('\n\n'), truncated: true };
+  }
+
+  return { text: formatted.join('\n\n'), truncated: false };
+}
 
 /**
  * Deep search tool implementation for MCP
  */
-export const deepSearchTool = {
+export const deepSearchTool = registerTool({
   name: "deep-search",
   description: "Perform a deep web search that visits pages to extract full content",
   
   // Define input schema
-  inputSchema: {
-    type: "object",
-    properties: {
-      query: { type: "string", description: "Search query" },
-      results: { type: "number", description: "Number of search results to process (default: 3, max: 10)" },
-      depth: { type: "number", description: "Depth of link traversal for each result (default: 1, max: 3)" },
-    },
-    required: ["query"]
-  },
+  inputSchema: z.object({
+    query: z.string().min(1).describe("Search query"),
+    results: z.number().default(3).describe(`Number of search results to process (default: 3, max: ${MAX_RESULTS})`),
+    depth: z.number().default(1).describe(`Depth of link traversal for each result (default: 1, max: ${MAX_DEPTH})`),
+    vertical: z.enum(['web', 'news', 'videos']).default('web').describe("Search vertical the initial results come from, use news for current events (default: web)"),
+    includeDomains: z.array(z.string()).optional().describe("Only search and crawl these domains and their subdomains, e.g. [\"python.org\"]; * wildcards are allowed"),
+    excludeDomains: z.array(z.string()).optional().describe("Never search or crawl these domains and their subdomains; * wildcards are allowed"),
+    mode: z.enum(['auto', 'http', 'browser']).default('auto').describe("How pages are loaded: auto fetches over HTTP and only uses the browser for pages that need JavaScript, http and browser force either (default: auto)"),
+    cache: z.enum(['use', 'refresh', 'only']).default('use').describe("How the local cache is used: use returns fresh cached results, refresh ignores them and updates the cache, only never goes to the network (default: use)"),
+    blockResources: z.array(z.enum(['image', 'media', 'font', 'stylesheet', 'tracker'])).optional().describe("Kinds of requests the browser skips while loading pages: image, media, font, stylesheet and tracker (ad and analytics hosts) (default: all but stylesheet)"),
+    passages: z.number().default(3).describe(`Number of passages most relevant to the query returned per page (default: 3, max: ${MAX_PASSAGES_PER_PAGE})`),
+    timeBudgetMs: z.number().optional().describe(`Time budget of the call in milliseconds; once it runs low no new pages are started and the pages extracted so far are returned, marked as partial (default and max: ${config.MAX_TIME_BUDGET})`),
+    maxOutputChars: z.number().default(DEFAULT_OUTPUT_CHARS).describe(`Maximum length of the output in characters, about 4 characters per token (default: ${DEFAULT_OUTPUT_CHARS}, min: ${MIN_OUTPUT_CHARS}, max: ${MAX_OUTPUT_CHARS})`),
+  }),
   
   // Tool execution handler
-  async handler(params: any) {
-    const { query, results = 3, depth = 1 } = params;
-    
-    // Validate and cap parameters
-    const maxResults = Math.min(Math.max(1, parseInt(String(results)) || 3), 10);
-    const maxDepth = Math.min(Math.max(1, parseInt(String(depth)) || 1), 3);
+  async handler(params, context) {
+    const { query, results, depth, vertical, passages, mode, cache, blockResources, includeDomains, excludeDomains, timeBudgetMs } = params;
+    const maxOutputChars = Math.min(Math.max(MIN_OUTPUT_CHARS, Math.floor(params.maxOutputChars)), MAX_OUTPUT_CHARS);
     
-    debug(`Executing deep-search with query: ${query}, results: ${maxResults}, depth: ${maxDepth}`);
+    debug(`Executing deep-search with query: ${query}, results: ${results}, depth: ${depth}, vertical: ${vertical}, mode: ${mode}, cache: ${cache}`);
     
     try {
-      // Step 1: Get initial search results from Brave Search API
-      const searchResponse = await searchWithBrave({
-        q: query,
-        count: maxResults
+      // Step 1: Search and crawl the result pages
+      const response = await deepSearch({
+        query,
+        results,
+        depth,
+        vertical,
+        passagesPerPage: passages,
+        mode,
+        cache,
+        blockResources,
+        includeDomains,
+        excludeDomains,
+        timeBudgetMs,
+        signal: context.signal,
+        onProgress: context.reportProgress
       });
       
-      if (searchResponse.results.length === 0) {
+      // Every result fell outside includeDomains, excludeDomains or the query's site: operators
+      if (response.results.length === 0 && response.filtered.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: [
+                `All search results for query "${query}" fell outside the requested domain scope:`,
+                ...response.filtered.map(url => `- ${url.url}: ${url.reason}`)
+              ].join('\n')
+            }
+          ]
+        };
+      }
+      
+      if (response.results.length === 0) {
         return {
           content: [
             {
@@ -48,34 +152,84 @@ export const deepSearchTool = {
         };
       }
       
-      // Step 2: Extract URLs from search results
-      const urls = searchResponse.results.map(result => result.url);
+      // Step 2: Collect the pages, each result followed by its related pages
+      const pages = response.results.flatMap(result => [
+        ...(result.extractedContent ? [{ page: result.extractedContent, resultType: result.type }] : []),
+        ...result.relatedPages.map(page => ({ page, resultType: undefined }))
+      ]);
       
-      // Step 3: Perform deep search on the URLs
-      const deepSearchResults = await performDeepSearch(urls, {
-        depth: maxDepth,
-        maxPages: maxResults * maxDepth
+      // Step 3: Share the output budget across the pages by the relevance of their passages
+      const title = `# Deep Search Results for "${query}"\nFound ${pages.length} pages with depth ${response.depth}` +
+        (response.partial ? `\nPartial results: the time budget ran out, so ${response.skippedByDeadline} pages were not visited` : '');
+      const headers = pages.map(({ page, resultType }) => formatPageHeader(page, resultType));
+      const items = pages.map(({ page }, index) => {
+        const passageList = page.passages || [];
+        const overhead = headers[index].length + PAGE_SEPARATOR.length;
+        
+        return {
+          demand: overhead + formatPassages(passageList, Infinity).text.length,
+          minimum: overhead + MIN_PASSAGE_CHARS,
+          weight: passageList.reduce((sum, passage) => sum + passage.score, 0) + 0.1
+        };
       });
       
-      // Step 4: Format the results
-      const formattedResults = deepSearchResults.map(result => {
-        return `
-# ${result.title}
-URL: ${result.url}
-${result.description ? `Description: ${result.description}` : ''}
-
-## Content
-${result.content.slice(0, 1000)}${result.content.length > 1000 ? '...' : ''}
-        `.trim();
-      });
+      // Step 4: Format the pages within their share
+      const formatPages = (budget: number) => {
+        const allocations = allocateBudget(items, budget);
+        const formattedResults: string[] = [];
+        const truncatedPages: string[] = [];
+        const omittedPages: string[] = [];
+        
+        pages.forEach(({ page }, index) => {
+          if (allocations[index] === 0) {
+            omittedPages.push(page.url);
+            return;
+          }
+          
+          const available = allocations[index] - headers[index].length - PAGE_SEPARATOR.length;
+          const formatted = formatPassages(page.passages || [], available);
+          formattedResults.push(headers[index] + formatted.text);
+          
+          if (formatted.truncated) {
+            truncatedPages.push(page.url);
+          }
+        });
+        
+        const body = `${title}\n\n${formattedResults.join(PAGE_SEPARATOR)}`;
+        
+        // Report how the budget was used
+        const report = [
+          `## Output Budget`,
+          `Used ${body.length} of ${maxOutputChars} characters.`,
+          ...(truncatedPages.length > 0 ? [`Truncated pages: ${truncatedPages.join(', ')}`] : []),
+          ...(omittedPages.length > 0 ? [`Omitted pages: ${omittedPages.join(', ')}`] : []),
+          ...(response.skipped.length > 0 ? [
+            '',
+            '## Skipped URLs',
+            ...response.skipped.map(url => `- ${url.url}: ${url.reason}`)
+          ] : []),
+          ...(response.filtered.length > 0 ? [
+            '',
+            '## Filtered URLs',
+            ...response.filtered.map(url => `- ${url.url}: ${url.reason}`)
+          ] : [])
+        ].join('\n');
+        
+        return { body, report };
+      };
       
-      // Generate summary
-      const summary = `
-# Deep Search Results for "${query}"
-Found ${deepSearchResults.length} pages with depth ${maxDepth}
-
-${formattedResults.join('\n\n---\n\n')}
-      `.trim();
+      // The report lists the truncated and omitted pages, so the pages are formatted without room for it
+      // first, then again with room for the previous report until the report fits in that room
+      const available = maxOutputChars - title.length - 2;
+      let reserve = 0;
+      let output = formatPages(available);
+      while (output.report.length > reserve) {
+        reserve = output.report.length;
+        output = formatPages(available - reserve);
+      }
+      
+      const { body, report } = output;
+      const summary = trimToSentence(`${body}${PAGE_SEPARATOR}${report}`, maxOutputChars);
       
       return {
         content: [
@@ -99,4 +253,4 @@ ${formattedResults.join('\n\n---\n\n')}
       };
     }
   }
-};
\ No newline at end of file
+});
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { capTimeBudget, Deadline, MIN_PAGE_TIME } from '../services/deadline.js';
+import { extractContentFromUrl } from '../services/puppeteer.js';
+import { config, debug } from '../utils/config.js';
+import { registerTool } from './registry.js';
+
+/**
+ * Fetch page tool implementation for MCP
+ * Extracts the readable content of known URLs without performing a search
+ */
+export const fetchPageTool = registerTool({
+  name: "fetch-page",
+  description: "Extract the title, description, content and links of one or more known URLs without performing a search",
+
+  // Define input schema
+  inputSchema: z.object({
+    url: z.union([
+      z.string().url(),
+      z.array(z.string().url()).min(1).max(10)
+    ]).describe("URL or list of URLs (max: 10) to extract"),
+    maxLength: z.number().default(5000).describe("Maximum number of content characters returned per page (default: 5000, max: 50000)"),
+    offset: z.number().default(0).describe("Character offset to start the content from, for paging through long pages (default: 0)"),
+    mode: z.enum(['auto', 'http', 'browser']).default('auto').describe("How pages are loaded: auto fetches over HTTP and only uses the browser for pages that need JavaScript, http and browser force either (default: auto)"),
+    cache: z.enum(['use', 'refresh', 'only']).default('use').describe("How the local cache is used: use returns fresh cached results, refresh ignores them and updates the cache, only never goes to the network (default: use)"),
+    timeBudgetMs: z.number().optional().describe(`Time budget of the call in milliseconds; once it runs low no further URLs are fetched and the pages extracted so far are returned (default and max: ${config.MAX_TIME_BUDGET})`),
+    blockResources: z.array(z.enum(['image', 'media', 'font', 'stylesheet', 'tracker'])).optional().describe("Kinds of requests the browser skips while loading pages: image, media, font, stylesheet and tracker (ad and analytics hosts) (default: all but stylesheet)"),
+  }),
+
+  // Tool execution handler
+  async handler(params, context) {
+    const urls = Array.isArray(params.url) ? params.url : [params.url];
+
+    // Cap parameters
+    const maxLength = Math.min(Math.max(1, Math.floor(params.maxLength)), 50000);
+    const offset = Math.max(0, Math.floor(params.offset));
+
+    debug(`Executing fetch-page for ${urls.length} URLs, maxLength: ${maxLength}, offset: ${offset}, mode: ${params.mode}, cache: ${params.cache}`);
+
+    // Process each URL sequentially, reporting failures per page
+    const formattedPages: string[] = [];
+    const notFetched: string[] = [];
+    let failures = 0;
+    const deadline = new Deadline(capTimeBudget(params.timeBudgetMs), context.signal);
+
+    for (const [index, url] of urls.entries()) {
+      // Stop at the next page once the client cancels the call
+      context.signal?.throwIfAborted();
+
+      if (deadline.remaining < MIN_PAGE_TIME) {
+        notFetched.push(...urls.slice(index));
+        break;
+      }
+
+      try {
+        const page = await extractContentFromUrl(url, {
+          mode: params.mode,
+          cache: params.cache,
+          blockResources: params.blockResources,
+          signal: deadline.signal
+        });
+        const content = page.content.slice(offset, offset + maxLength);
+        const nextOffset = offset + content.length;
+        const links = page.links.map(link => `- [${link.text}](${link.url})`);
+
+        formattedPages.push(`
+# ${page.title}
+URL: ${page.url}
+${page.description ? `Description: ${page.description}` : ''}
+Content Type: ${page.contentType}
+Fetch Mode: ${page.fetchMode}
+Content Confidence: ${page.confidence}
+${page.partial ? 'Partial: loading timed out, so the content may be incomplete' : ''}
+
+## Content
+${content || '(no content at this offset)'}
+
+${nextOffset < page.content.length
+  ? `Showing characters ${offset}-${nextOffset} of ${page.content.length}. Call again with offset ${nextOffset} for more.`
+  : `Showing characters ${offset}-${nextOffset} of ${page.content.length}.`}
+
+## Links
+${links.length > 0 ? links.join('\n') : 'No links found'}
+        `.trim());
+      } catch (error) {
+        if (deadline.expired) {
+          notFetched.push(url);
+          continue;
+        }
+
+        debug(`Fetch page error for ${url}:`, error);
+        failures++;
+
+        formattedPages.push(`
+# Error
+URL: ${url}
+
+Error extracting content: ${error instanceof Error ? error.message : String(error)}
+        `.trim());
+      }
+
+      context.reportProgress(index + 1, urls.length, `Fetched ${url}`);
+    }
+
+    deadline.dispose();
+
+    if (notFetched.length > 0) {
+      formattedPages.push(`
+# Time Budget Exhausted
+The time budget ran out before these URLs were fetched:
+${notFetched.map(url => `- ${url}`).join('\n')}
+      `.trim());
+    }
+
+    return {
+      isError: failures + notFetched.length === urls.length,
+      content: [
+        {
+          type: "text",
+          text: formattedPages.join('\n\n---\n\n')
+        }
+      ]
+    };
+  }
+});
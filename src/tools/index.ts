@@ -0,0 +1,8 @@
+// Importing a tool module registers it with the tool registry
+import './deep-search.js';
+import './deep-search-structured.js';
+import './brave-search.js';
+import './fetch-page.js';
+import './search-quota.js';
+
+export { listTools, callTool } from './registry.js';
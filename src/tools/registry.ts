@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CallToolResult, ErrorCode, McpError, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { debug } from '../utils/config.js';
+
+/**
+ * Context of a tool call
+ */
+export interface ToolContext {
+  // Aborted when the client cancels the call
+  signal?: AbortSignal;
+  // Send a progress notification, if the client asked for them; progress must increase with each call
+  reportProgress(progress: number, total: number | undefined, message: string): void;
+}
+
+/**
+ * Definition of an MCP tool that can be registered with the server
+ */
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  outputSchema?: Tool['outputSchema'];
+  handler(args: z.infer<S>, context: ToolContext): Promise<CallToolResult>;
+}
+
+// Registered tools, keyed by name
+const tools = new Map<string, ToolDefinition<any>>();
+
+/**
+ * Register a tool so it is listed and dispatched by the server
+ */
+export function registerTool<S extends z.ZodTypeAny>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+
+  tools.set(tool.name, tool);
+  debug(`Registered tool: ${tool.name}`);
+
+  return tool;
+}
+
+/**
+ * List all registered tools with their input schemas converted to JSON Schema
+ */
+export function listTools(): Tool[] {
+  return Array.from(tools.values()).map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: zodToJsonSchema(tool.inputSchema, { $refStrategy: 'none' }) as Tool['inputSchema'],
+    ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {})
+  }));
+}
+
+/**
+ * Validate the arguments against the tool's schema and execute it
+ * Unknown tools and invalid arguments are reported as MCP errors
+ */
+export async function callTool(
+  name: string,
+  args: unknown,
+  context: ToolContext = { reportProgress: () => undefined }
+): Promise<CallToolResult> {
+  const tool = tools.get(name);
+
+  if (!tool) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+  }
+
+  const parsed = tool.inputSchema.safeParse(args ?? {});
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue: z.ZodIssue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      .join('; ');
+
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for tool ${name}: ${issues}`);
+  }
+
+  return await tool.handler(parsed.data, context);
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { getBraveQuota } from '../services/brave-client.js';
+import { config, debug } from '../utils/config.js';
+import { registerTool } from './registry.js';
+
+/**
+ * Search quota tool implementation for MCP
+ * Reports the Brave rate limit and monthly quota tracked from the API responses, without spending a request
+ */
+export const searchQuotaTool = registerTool({
+  name: "search-quota",
+  description: "Show the Brave Search API rate limit and remaining monthly quota, as reported by the latest API response, without spending a request",
+
+  // Define input schema
+  inputSchema: z.object({}),
+
+  // Tool execution handler
+  async handler() {
+    debug('Executing search-quota');
+
+    const quota = getBraveQuota();
+    const lines = [
+      '# Brave Search Quota',
+      `Search provider: ${config.SEARCH_PROVIDER}${config.SEARCH_PROVIDER !== 'brave' ? ' (the Brave quota only applies to the brave provider)' : ''}`,
+      `Rate limit: ${quota.perSecondLimit} requests per second`
+    ];
+
+    if (quota.updatedAt) {
+      lines.push(
+        `Monthly quota: ${quota.monthlyRemaining ?? 'unknown'} of ${quota.monthlyLimit ?? 'unknown'} requests remaining`,
+        ...(quota.monthlyResetAt ? [`Resets: ${quota.monthlyResetAt.toISOString()}`] : []),
+        `Last updated: ${quota.updatedAt.toISOString()}`
+      );
+    } else {
+      lines.push('Monthly quota: unknown until the first Brave API request, cached searches don\'t count');
+    }
+
+    lines.push(`Requests sent: ${quota.requests} (${quota.retries} retries)`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: lines.join('\n')
+        }
+      ]
+    };
+  }
+});
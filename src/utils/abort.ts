@@ -0,0 +1,21 @@
+/**
+ * Settle with a promise, or reject with the signal's reason as soon as it aborts
+ * For work that can't be cancelled itself, such as DNS lookups or downloads shared between callers:
+ * the caller stops waiting while the work runs on.
+ */
+export function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // The abandoned promise may still reject, which must not go unhandled
+    promise.catch(() => undefined);
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -1,59 +1,365 @@
-import puppeteer, { Browser } from 'puppeteer';
+import puppeteer, { Browser, HTTPRequest, Page } from 'puppeteer';
 import { config, debug } from './config.js';
+import { isTrackerHost } from './tracker-hosts.js';
+import { BlockedUrlError, checkUrl } from './url-guard.js';
+
+export const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+/**
+ * Kinds of requests a page can be kept from making, trackers being requests to known ad and analytics hosts
+ */
+export type ResourceKind = 'image' | 'media' | 'font' | 'stylesheet' | 'tracker';
+
+export const RESOURCE_KINDS: ResourceKind[] = ['image', 'media', 'font', 'stylesheet', 'tracker'];
+
+export interface PageOptions {
+  // Kinds of requests to abort, BLOCK_RESOURCES by default
+  blockResources?: ResourceKind[];
+  // Closes the page when aborted, so the function using it fails fast
+  signal?: AbortSignal;
+}
+
+// Blocking of the call currently using a page, with counts of the requests it aborted by kind
+interface RequestBlocking {
+  kinds: Set<ResourceKind>;
+  blocked: Map<ResourceKind | 'unsafe', number>;
+}
 
 // Singleton browser instance
 let browserInstance: Browser | null = null;
 
+// Pending launch, shared by concurrent callers
+let launchPromise: Promise<Browser> | null = null;
+
+/**
+ * Counting semaphore limiting how many callers hold a slot at once
+ */
+class Semaphore {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  get idle(): boolean {
+    return this.active === 0 && this.waiting.length === 0;
+  }
+
+  /**
+   * Wait for a slot, rejecting with the signal's reason and leaving the queue if it aborts first
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+
+    // The releasing caller hands its slot over directly
+    await new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting.splice(this.waiting.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Page pool: a global limit on open pages, a limit per host and idle pages kept for reuse
+const pageSlots = new Semaphore(Math.max(1, config.MAX_CONCURRENT_PAGES));
+const hostSlots = new Map<string, Semaphore>();
+const idlePages: Page[] = [];
+
+// Main-frame navigations the URL guard blocked, so the page's error can say why
+const blockedNavigations = new WeakMap<Page, BlockedUrlError>();
+
+// Request blocking of each page, set for every call that uses it
+const requestBlocking = new WeakMap<Page, RequestBlocking>();
+
+/**
+ * Launch a new browser instance
+ */
+async function launchBrowser(): Promise<Browser> {
+  debug('Launching new browser instance');
+
+  const options = {
+    headless: config.isHeadless,
+    args: [
+      '--disable-setuid-sandbox',
+      '--no-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-accelerated-2d-canvas',
+      '--no-first-run',
+      '--no-zygote',
+      '--disable-gpu'
+    ]
+  };
+
+  const browser = await puppeteer.launch(options);
+
+  // Handle browser closing
+  browser.on('disconnected', () => {
+    debug('Browser disconnected');
+    browserInstance = null;
+    idlePages.length = 0;
+  });
+
+  return browser;
+}
+
 /**
  * Get a browser instance, creating one if it doesn't exist
  */
 export async function getBrowser(): Promise<Browser> {
-  if (!browserInstance) {
-    debug('Launching new browser instance');
-    
-    const options = {
-      headless: config.isHeadless,
-      args: [
-        '--disable-setuid-sandbox',
-        '--no-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu'
-      ]
-    };
-    
-    browserInstance = await puppeteer.launch(options);
-    
-    // Handle browser closing
-    browserInstance.on('disconnected', () => {
-      debug('Browser disconnected');
-      browserInstance = null;
+  if (browserInstance) {
+    return browserInstance;
+  }
+
+  // Only launch one browser if several callers ask at the same time
+  if (!launchPromise) {
+    launchPromise = launchBrowser();
+  }
+
+  try {
+    browserInstance = await launchPromise;
+    return browserInstance;
+  } finally {
+    launchPromise = null;
+  }
+}
+
+/**
+ * Get the kinds of requests blocked by default, from BLOCK_RESOURCES
+ */
+export function defaultBlockedResources(): ResourceKind[] {
+  return config.BLOCK_RESOURCES.split(',')
+    .map(kind => kind.trim())
+    .filter((kind): kind is ResourceKind => RESOURCE_KINDS.includes(kind as ResourceKind));
+}
+
+/**
+ * Get the kind of a request if the page's call blocks it
+ */
+function blockedKind(request: HTTPRequest, kinds: Set<ResourceKind>): ResourceKind | undefined {
+  const type = request.resourceType();
+  if ((type === 'image' || type === 'media' || type === 'font' || type === 'stylesheet') && kinds.has(type)) {
+    return type;
+  }
+
+  if (kinds.has('tracker')) {
+    try {
+      if (isTrackerHost(new URL(request.url()).hostname)) {
+        return 'tracker';
+      }
+    } catch {
+      // URLs without a host, such as data: URLs, are never trackers
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Let a request through if the URL guard allows it and the page's call doesn't block its kind, aborting it otherwise
+ * The URL guard covers navigations, their redirects and every subrequest the page makes.
+ */
+async function handleRequest(page: Page, request: HTTPRequest): Promise<void> {
+  if (request.isInterceptResolutionHandled()) {
+    return;
+  }
+
+  const url = request.url();
+  const blocking = requestBlocking.get(page);
+  const count = (kind: ResourceKind | 'unsafe') => blocking?.blocked.set(kind, (blocking.blocked.get(kind) || 0) + 1);
+
+  try {
+    // Blocking assets is cheap, so it is decided before resolving the host
+    const kind = blocking && !request.isNavigationRequest() ? blockedKind(request, blocking.kinds) : undefined;
+    if (kind) {
+      count(kind);
+      await request.abort('blockedbyclient');
+      return;
+    }
+
+    const reason = await checkUrl(url, { allowLocalSchemes: true });
+    if (!reason) {
+      await request.continue();
+      return;
+    }
+
+    debug(`Blocked request to ${url}: ${reason}`);
+    count('unsafe');
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+      blockedNavigations.set(page, new BlockedUrlError(url, reason));
+    }
+    await request.abort('blockedbyclient');
+  } catch (error) {
+    // The page may have closed while the URL was checked
+    debug(`Error handling request to ${url}:`, error);
+  }
+}
+
+/**
+ * Create a new page with default timeouts and user agent, whose requests pass the URL guard
+ * and the request blocking of the call using it
+ */
+export async function newPage(): Promise<Page> {
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+
+  page.setDefaultTimeout(config.PAGE_TIMEOUT);
+  page.setDefaultNavigationTimeout(config.PAGE_TIMEOUT);
+
+  // Set user agent to mimic a real browser
+  await page.setUserAgent(USER_AGENT);
+
+  await page.setRequestInterception(true);
+  page.on('request', request => void handleRequest(page, request));
+
+  return page;
+}
+
+/**
+ * Get the error for a main-frame navigation of the page that the URL guard blocked, if any
+ */
+export function blockedNavigation(page: Page): BlockedUrlError | undefined {
+  return blockedNavigations.get(page);
+}
+
+/**
+ * Run a function with a pooled page for the given URL
+ * Waits until both a global and a per-host slot are free, and returns the page to the pool afterwards
+ * The page aborts the kinds of requests in options.blockResources while the function runs,
+ * and is closed if options.signal aborts. Aborting while waiting for a slot rejects with the signal's reason.
+ */
+export async function withPage<T>(url: string, fn: (page: Page) => Promise<T>, options: PageOptions = {}): Promise<T> {
+  const host = new URL(url).host;
+  const hostSlot = hostSlots.get(host) || new Semaphore(Math.max(1, config.MAX_PAGES_PER_HOST));
+  hostSlots.set(host, hostSlot);
+
+  // Forget the host's semaphore once nobody holds or waits for it
+  const releaseHostSlot = (held: boolean) => {
+    if (held) {
+      hostSlot.release();
+    }
+    if (hostSlot.idle) {
+      hostSlots.delete(host);
+    }
+  };
+
+  // Take the host slot first, so waiting for a global slot never blocks other hosts.
+  // Callers cancelled while waiting leave the queues, giving back the host slot if they hold it
+  try {
+    await hostSlot.acquire(options.signal);
+  } catch (error) {
+    releaseHostSlot(false);
+    throw error;
+  }
+  try {
+    await pageSlots.acquire(options.signal);
+  } catch (error) {
+    releaseHostSlot(true);
+    throw error;
+  }
+
+  let page: Page | null = null;
+  const closeOnAbort = () => {
+    debug(`Closing the page for ${url}, its request was cancelled`);
+    page?.close().catch(() => undefined);
+  };
+
+  try {
+    options.signal?.throwIfAborted();
+
+    // Reuse an idle page if it is still open
+    while (!page && idlePages.length > 0) {
+      const idlePage = idlePages.pop()!;
+      if (!idlePage.isClosed()) {
+        page = idlePage;
+      }
+    }
+
+    if (!page) {
+      page = await newPage();
+    }
+
+    requestBlocking.set(page, {
+      kinds: new Set(options.blockResources || defaultBlockedResources()),
+      blocked: new Map()
     });
+
+    options.signal?.addEventListener('abort', closeOnAbort, { once: true });
+    return await fn(page);
+  } finally {
+    options.signal?.removeEventListener('abort', closeOnAbort);
+
+    if (page) {
+      logBlockedRequests(page, url);
+      await releasePage(page);
+    }
+
+    pageSlots.release();
+    releaseHostSlot(true);
+  }
+}
+
+/**
+ * Log how many requests a page aborted for a URL, by kind
+ */
+function logBlockedRequests(page: Page, url: string): void {
+  const blocking = requestBlocking.get(page);
+  requestBlocking.delete(page);
+
+  if (!blocking || blocking.blocked.size === 0) {
+    return;
+  }
+
+  const total = Array.from(blocking.blocked.values()).reduce((sum, count) => sum + count, 0);
+  const counts = Array.from(blocking.blocked, ([kind, count]) => `${count} ${kind}`).join(', ');
+  debug(`Blocked ${total} requests while loading ${url}: ${counts}`);
+}
+
+/**
+ * Reset a page and keep it for reuse, closing it if it can't be reset
+ */
+async function releasePage(page: Page): Promise<void> {
+  if (page.isClosed()) {
+    return;
+  }
+
+  try {
+    blockedNavigations.delete(page);
+    await page.goto('about:blank');
+    idlePages.push(page);
+  } catch (error) {
+    debug('Error resetting page, closing it:', error);
+    await page.close().catch(() => undefined);
   }
-  
-  return browserInstance;
 }
 
 /**
  * Close the browser instance if it exists
  */
 export async function closeBrowser(): Promise<void> {
+  idlePages.length = 0;
+
   if (browserInstance) {
     debug('Closing browser instance');
     await browserInstance.close();
     browserInstance = null;
   }
 }
-
-// Handle process exit to close browser gracefully
-process.on('SIGINT', async () => {
-  await closeBrowser();
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  await closeBrowser();
-  process.exit(0);
-});
\ No newline at end of file
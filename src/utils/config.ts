@@ -1,17 +1,64 @@
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
 import { z } from 'zod';
 
 // Load environment variables from .env file
 dotenv.config();
 
+// Per-domain navigation overrides, a JSON object of domain patterns to a wait selector and extra delay
+const navigationOverridesSchema = z.string().default('{}').transform((value, context) => {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: 'NAVIGATION_OVERRIDES must be a JSON object' });
+    return z.NEVER;
+  }
+}).pipe(z.record(z.object({
+  waitSelector: z.string().optional(),
+  delay: z.number().nonnegative().optional()
+})));
+
 // Define the schema for environment variables
 const envSchema = z.object({
-  // Required variables
-  BRAVE_API_KEY: z.string().min(1, "BRAVE_API_KEY is required"),
+  // Search backend of the tools and deep search, its settings are checked when the server starts
+  SEARCH_PROVIDER: z.enum(['brave', 'searxng', 'fixture']).default('brave'),
+  BRAVE_API_KEY: z.string().default(''),
+  BRAVE_RATE_LIMIT: z.string().default('1').transform(Number),
+  BRAVE_MAX_RETRIES: z.string().default('3').transform(Number),
+  SEARXNG_URL: z.string().default(''),
+  SEARCH_FIXTURE_FILE: z.string().default(''),
   
   // Optional variables with defaults
   PUPPETEER_HEADLESS: z.enum(['true', 'false']).default('true'),
   PAGE_TIMEOUT: z.string().default('30000').transform(Number),
+  MAX_CONCURRENT_PAGES: z.string().default('4').transform(Number),
+  MAX_PAGES_PER_HOST: z.string().default('2').transform(Number),
+  MAX_TIME_BUDGET: z.string().default('300000').transform(Number),
+  CONTENT_QUIET_PERIOD: z.string().default('500').transform(Number),
+  CONTENT_WAIT_TIMEOUT: z.string().default('10000').transform(Number),
+  NAVIGATION_OVERRIDES: navigationOverridesSchema,
+  ALLOWED_DOMAINS: z.string().default(''),
+  DENIED_DOMAINS: z.string().default(''),
+  ROBOTS_USER_AGENT: z.string().default('BraveDeepResearchMCP'),
+  MIN_HOST_INTERVAL: z.string().default('1000').transform(Number),
+  CRAWL_EXEMPT_HOSTS: z.string().default(''),
+  ALLOWED_PORTS: z.string().default('80,443,8080,8443'),
+  ALLOW_PRIVATE_NETWORK: z.enum(['true', 'false']).default('false'),
+  BLOCK_RESOURCES: z.string().default('image,media,font,tracker'),
+  CACHE_ENABLED: z.enum(['true', 'false']).default('true'),
+  CACHE_DIR: z.string().default(path.join(os.homedir(), '.cache', 'brave-deep-research-mcp')),
+  CACHE_SEARCH_TTL: z.string().default('3600').transform(Number),
+  CACHE_PAGE_TTL: z.string().default('86400').transform(Number),
+  CACHE_MAX_SIZE_MB: z.string().default('200').transform(Number),
+  TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  HTTP_HOST: z.string().default('127.0.0.1'),
+  HTTP_PORT: z.string().default('3000').transform(Number),
+  AUTH_TOKEN: z.string().default(''),
+  SESSION_IDLE_TIMEOUT: z.string().default('1800').transform(Number),
+  MAX_SESSIONS: z.string().default('100').transform(Number),
+  ALLOWED_HOSTS: z.string().default(''),
+  ALLOWED_ORIGINS: z.string().default(''),
   DEBUG_MODE: z.enum(['true', 'false']).default('false'),
 });
 
@@ -30,6 +77,8 @@ export const config = {
   ...parseEnv(),
   isHeadless: process.env.PUPPETEER_HEADLESS !== 'false',
   isDebugMode: process.env.DEBUG_MODE === 'true',
+  isCacheEnabled: process.env.CACHE_ENABLED !== 'false',
+  isPrivateNetworkAllowed: process.env.ALLOW_PRIVATE_NETWORK === 'true',
 };
 
 // Helper function for debugging
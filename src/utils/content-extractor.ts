@@ -1,100 +1,194 @@
+import { parseHTML } from 'linkedom';
 import { Page } from 'puppeteer';
 import { debug } from './config.js';
+import { htmlToMarkdown } from './markdown.js';
+import { findMainContent } from './readability.js';
+
+export interface PageLink {
+  url: string;
+  text: string;
+  inMainContent: boolean;
+}
+
+/**
+ * Main content of a page, with the confidence that the right part of the page was found
+ */
+export interface MainContent {
+  content: string;
+  confidence: number;
+}
+
+/**
+ * Content extracted from server-rendered HTML
+ */
+export interface HtmlContent extends MainContent {
+  title: string;
+  description: string;
+  links: PageLink[];
+  javaScriptShell: boolean;
+}
+
+// Attributes marking the main content root and its parts that are not content,
+// so links can be classified against them
+const MAIN_CONTENT_ATTRIBUTE = 'data-deep-research-main';
+const EXCLUDED_ATTRIBUTE = 'data-deep-research-excluded';
+
+// Server-rendered pages with less body text than this are treated as JavaScript shells
+const SHELL_TEXT_LENGTH = 200;
+
+// Mount points of client-side frameworks, empty until their JavaScript runs
+const FRAMEWORK_ROOT_SELECTORS = [
+  '#root',
+  '#app',
+  '#__next',
+  '#__nuxt',
+  '#___gatsby',
+  '#svelte',
+  '[data-reactroot]',
+  '[ng-app]',
+  'app-root',
+];
+
+// Elements left out of the main content
+const EXCLUDE_SELECTORS = [
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  '.navigation',
+  '.menu',
+  '.sidebar',
+  '.ads',
+  '.advertisement',
+  '.comments',
+  '.related',
+  '.share',
+  '.social',
+];
 
 /**
- * Extract the main content from a webpage
- * Attempts to identify and extract the main content, excluding navigation, footers, etc.
+ * Extract the main content from a webpage as Markdown
+ * Identifies the main content by Readability-style scoring, excluding navigation, footers, etc.
  */
-export async function extractMainContent(page: Page): Promise<string> {
+export async function extractMainContent(page: Page): Promise<MainContent> {
   debug(`Extracting main content from ${page.url()}`);
-  
-  return await page.evaluate(() => {
-    // Define potential content selectors - ordered by priority
-    const contentSelectors = [
-      'article',
-      'main',
-      '.content',
-      '#content',
-      '.post-content',
-      '.entry-content',
-      '.article-content',
-      '.article-body',
-      '.post-body',
-    ];
-    
-    // Define elements to exclude
-    const excludeSelectors = [
-      'nav',
-      'header',
-      'footer',
-      '.navigation',
-      '.menu',
-      '.sidebar',
-      '.ads',
-      '.advertisement',
-      '.comments',
-      '.related',
-      '.share',
-      '.social',
-    ];
-    
-    // Try to find main content using selectors
-    for (const selector of contentSelectors) {
-      const element = document.querySelector(selector);
-      if (element && element.textContent && element.textContent.trim().length > 100) {
-        return element.textContent.trim();
-      }
+
+  // Find and mark the main content root
+  const documentHandle = await page.evaluateHandle(() => document);
+  const confidence = await page.evaluate(findMainContent, documentHandle, MAIN_CONTENT_ATTRIBUTE, EXCLUDED_ATTRIBUTE);
+  await documentHandle.dispose();
+
+  // Convert the marked root to Markdown inside the page
+  const root = await page.$(`[${MAIN_CONTENT_ATTRIBUTE}]`);
+  if (!root) {
+    return { content: "No content found", confidence: 0 };
+  }
+
+  try {
+    const excludeSelector = [...EXCLUDE_SELECTORS, `[${EXCLUDED_ATTRIBUTE}]`].join(', ');
+    const content = await page.evaluate(htmlToMarkdown, root, excludeSelector, page.url());
+
+    debug(`Main content of ${page.url()} found with confidence ${confidence}`);
+    return { content: content || "No content found", confidence: content ? confidence : 0 };
+  } finally {
+    await root.dispose();
+  }
+}
+
+/**
+ * Find the links of a document
+ * Returns same-origin links to likely content pages and documents with their text, in document order
+ * Links are flagged as main content if they are inside the root marked by findMainContent
+ *
+ * The function is self-contained so it can be passed to page.evaluate and run inside the browser;
+ * it must not reference anything outside its own body.
+ */
+function findLinks(doc: Document, baseUrl: string, mainContentAttribute: string, excludedAttribute: string): PageLink[] {
+  const links: Array<{ url: string, text: string, inMainContent: boolean }> = [];
+  const seen = new Set<string>();
+  const origin = new URL(baseUrl).origin;
+
+  // File extensions and paths that are not content pages
+  const skippedExtensions = /\.(jpe?g|png|gif|svg|webp|zip|gz|mp3|mp4)$/i;
+  const skippedPaths = ['/cdn-cgi/', '/wp-admin/'];
+
+  // Get all links in the document
+  const anchorElements = doc.querySelectorAll('a[href]');
+
+  anchorElements.forEach(anchor => {
+    const href = anchor.getAttribute('href');
+
+    // Skip if no href or it's a special link (javascript:, mailto:, tel:, anchor)
+    if (!href || href.startsWith('javascript:') || href.startsWith('mailto:') ||
+        href.startsWith('tel:') || href.startsWith('#')) {
+      return;
+    }
+
+    // Convert relative URLs to absolute, dropping the fragment
+    let url: string;
+    try {
+      const parsed = new URL(href, baseUrl);
+      parsed.hash = '';
+      url = parsed.href;
+    } catch {
+      return;
+    }
+
+    // Only include unseen links from the same origin
+    if (!url.startsWith(origin) || seen.has(url)) {
+      return;
+    }
+
+    // Skip URLs that likely aren't content pages
+    const path = new URL(url).pathname;
+    if (skippedExtensions.test(path) || skippedPaths.some(skipped => path.includes(skipped))) {
+      return;
+    }
+
+    // Only include links with meaningful text
+    const text = (anchor.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text.length > 1) {
+      const inMainContent = !!anchor.closest(`[${mainContentAttribute}]`) &&
+        !anchor.closest(`nav, header, footer, aside, .navigation, .menu, .sidebar, [${excludedAttribute}]`);
+
+      links.push({ url, text, inMainContent });
+      seen.add(url);
     }
-    
-    // If no main content is found, use the body but exclude common non-content elements
-    const body = document.body;
-    const clonedBody = body.cloneNode(true) as HTMLBodyElement;
-    
-    // Remove excluded elements
-    excludeSelectors.forEach(selector => {
-      const elements = clonedBody.querySelectorAll(selector);
-      elements.forEach(el => el.parentNode?.removeChild(el));
-    });
-    
-    // Return cleaned content
-    return clonedBody.textContent?.trim() || "No content found";
   });
+
+  return links;
+}
+
+/**
+ * Find the title and description of a document
+ *
+ * The function is self-contained so it can be passed to page.evaluate and run inside the browser.
+ */
+function findMetadata(doc: Document): { title: string, description: string } {
+  const title = (doc.title || "").trim();
+
+  // Try to get meta description
+  const metaDescription = doc.querySelector('meta[name="description"]')?.getAttribute('content') ||
+                          doc.querySelector('meta[property="og:description"]')?.getAttribute('content') ||
+                          "";
+
+  return { title, description: metaDescription };
 }
 
 /**
  * Extract links from a page
- * Returns an array of objects with url and text properties
+ * Returns same-origin links to likely content pages and documents with their text, in document order
+ * Links are flagged as main content if they are inside the root marked by extractMainContent
  */
-export async function extractLinks(page: Page): Promise<Array<{ url: string, text: string }>> {
+export async function extractLinks(page: Page): Promise<PageLink[]> {
   debug(`Extracting links from ${page.url()}`);
-  
-  return await page.evaluate(() => {
-    const links: Array<{ url: string, text: string }> = [];
-    
-    // Get all links in the document
-    const anchorElements = document.querySelectorAll('a[href]');
-    
-    anchorElements.forEach(anchor => {
-      const href = anchor.getAttribute('href');
-      
-      // Skip if no href or it's a special link (javascript:, mailto:, tel:, anchor)
-      if (!href || href.startsWith('javascript:') || href.startsWith('mailto:') || 
-          href.startsWith('tel:') || href.startsWith('#')) {
-        return;
-      }
-      
-      // Convert relative URLs to absolute
-      const url = new URL(href, window.location.href).href;
-      const text = anchor.textContent?.trim() || url;
-      
-      // Only include links with text and from the same domain
-      if (text && url.startsWith(window.location.origin)) {
-        links.push({ url, text });
-      }
-    });
-    
-    return links;
-  });
+
+  const documentHandle = await page.evaluateHandle(() => document);
+  try {
+    return await page.evaluate(findLinks, documentHandle, page.url(), MAIN_CONTENT_ATTRIBUTE, EXCLUDED_ATTRIBUTE);
+  } finally {
+    await documentHandle.dispose();
+  }
 }
 
 /**
@@ -102,15 +196,70 @@ export async function extractLinks(page: Page): Promise<Array<{ url: string, tex
  */
 export async function extractMetadata(page: Page): Promise<{ title: string, description: string }> {
   debug(`Extracting metadata from ${page.url()}`);
-  
-  return await page.evaluate(() => {
-    const title = document.title || "";
-    
-    // Try to get meta description
-    const metaDescription = document.querySelector('meta[name="description"]')?.getAttribute('content') || 
-                            document.querySelector('meta[property="og:description"]')?.getAttribute('content') || 
-                            "";
-    
-    return { title, description: metaDescription };
-  });
-}
\ No newline at end of file
+
+  const documentHandle = await page.evaluateHandle(() => document);
+  try {
+    return await page.evaluate(findMetadata, documentHandle);
+  } finally {
+    await documentHandle.dispose();
+  }
+}
+
+/**
+ * Check whether a server-rendered document is an empty shell that needs JavaScript to show its content:
+ * a body with hardly any text, an empty framework root element, or a noscript warning with little content
+ * Removes scripts, styles and noscript elements, which are not content anyway
+ */
+function looksLikeJavaScriptShell(doc: Document): boolean {
+  const body = doc.body;
+  if (!body) {
+    return true;
+  }
+
+  const textLength = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+  body.querySelectorAll('script, style, template').forEach(element => element.remove());
+  const noscriptText = Array.from(body.querySelectorAll('noscript')).map(element => element.textContent || '').join(' ');
+  body.querySelectorAll('noscript').forEach(element => element.remove());
+
+  const bodyLength = textLength(body);
+  if (bodyLength < SHELL_TEXT_LENGTH) {
+    return true;
+  }
+
+  const frameworkRoot = body.querySelector(FRAMEWORK_ROOT_SELECTORS.join(', '));
+  if (frameworkRoot && textLength(frameworkRoot) < SHELL_TEXT_LENGTH) {
+    return true;
+  }
+
+  return /(enable|requires?|turn on|need) javascript|javascript (is )?(required|disabled|must be enabled)/i.test(noscriptText) &&
+    bodyLength < SHELL_TEXT_LENGTH * 5;
+}
+
+/**
+ * Extract the title, description, main content and links from HTML without a browser
+ * Runs the same scoring and conversion as the browser extraction on a server-side DOM,
+ * and flags pages that look like JavaScript shells, whose content only a browser can show
+ */
+export function extractFromHtml(html: string, url: string): HtmlContent {
+  debug(`Extracting content from the HTML of ${url}`);
+
+  const doc = parseHTML(html).document as unknown as Document;
+  const javaScriptShell = looksLikeJavaScriptShell(doc);
+  const metadata = findMetadata(doc);
+  const confidence = findMainContent(doc, MAIN_CONTENT_ATTRIBUTE, EXCLUDED_ATTRIBUTE);
+  const root = doc.querySelector(`[${MAIN_CONTENT_ATTRIBUTE}]`);
+  const content = root
+    ? htmlToMarkdown(root, [...EXCLUDE_SELECTORS, `[${EXCLUDED_ATTRIBUTE}]`].join(', '), url)
+    : '';
+
+  debug(`Main content of ${url} found with confidence ${confidence}`);
+
+  return {
+    ...metadata,
+    content: content || "No content found",
+    confidence: content ? confidence : 0,
+    links: findLinks(doc, url, MAIN_CONTENT_ATTRIBUTE, EXCLUDED_ATTRIBUTE),
+    javaScriptShell
+  };
+}
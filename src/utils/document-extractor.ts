@@ -0,0 +1,260 @@
+import { debug } from './config.js';
+import { PageLink } from './content-extractor.js';
+import { decodeText, fetchUrl, HttpResponse } from './http.js';
+
+/**
+ * Kinds of content the crawler can extract
+ */
+export type ContentType = 'html' | 'pdf' | 'text' | 'json';
+
+/**
+ * Content of a document that is not rendered as HTML
+ */
+export interface DocumentContent {
+  contentType: ContentType;
+  title: string;
+  description: string;
+  content: string;
+  confidence: number;
+  links: PageLink[];
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'()[\]{}]+[^\s<>"'()[\]{}.,;:!?]/g;
+
+/**
+ * Detect the content type from a Content-Type header
+ * Returns undefined for types that aren't documents, which are rendered as HTML
+ */
+export function contentTypeFromHeader(header: string | undefined): ContentType | undefined {
+  const mimeType = (header || '').split(';')[0].trim().toLowerCase();
+
+  if (mimeType === 'application/pdf') {
+    return 'pdf';
+  }
+  if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+    return 'json';
+  }
+  if (mimeType === 'text/plain' || mimeType === 'text/markdown' || mimeType === 'text/csv') {
+    return 'text';
+  }
+  return undefined;
+}
+
+/**
+ * Guess the content type from the URL's file extension, before navigating to it
+ */
+export function contentTypeFromUrl(url: string): ContentType | undefined {
+  let path: string;
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+
+  if (path.endsWith('.pdf')) {
+    return 'pdf';
+  }
+  if (path.endsWith('.json')) {
+    return 'json';
+  }
+  if (/\.(txt|md|markdown|csv|rst)$/.test(path)) {
+    return 'text';
+  }
+  return undefined;
+}
+
+/**
+ * Absolute URLs mentioned in text, in order of appearance
+ */
+function linksInText(text: string): PageLink[] {
+  const urls = new Set(text.match(URL_PATTERN) || []);
+  return Array.from(urls).map(url => ({ url, text: url, inMainContent: true }));
+}
+
+/**
+ * Title of a document without metadata, taken from the last path segment of its URL
+ */
+function titleFromUrl(url: string): string {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return decodeURIComponent(segments[segments.length - 1] || new URL(url).hostname);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Extract the text of a PDF as Markdown with a heading per page, so page numbers survive passage splitting
+ * Lines are rebuilt from the text items, and a vertical gap larger than a line starts a new paragraph
+ */
+async function extractPdf(data: Uint8Array, url: string): Promise<DocumentContent> {
+  const { getDocument, VerbosityLevel } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // pdf.js logs warnings to stdout, which would corrupt the stdio transport
+  const pdf = await getDocument({ data, isEvalSupported: false, verbosity: VerbosityLevel.ERRORS }).promise;
+
+  try {
+    const metadata = await pdf.getMetadata().catch(() => undefined);
+    const info = (metadata?.info || {}) as { Title?: string, Subject?: string };
+    const pages: string[] = [];
+    const links: PageLink[] = [];
+    const seen = new Set<string>();
+
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const textContent = await page.getTextContent();
+      let text = '';
+      let line = '';
+      let lastY: number | undefined;
+      let lastHeight = 0;
+
+      for (const item of textContent.items) {
+        if (!('str' in item)) {
+          continue;
+        }
+
+        const y = item.transform[5];
+        if (lastY !== undefined && line === '' && lastY - y > lastHeight * 1.8) {
+          text += '\n';
+        }
+
+        line += item.str;
+        if (item.hasEOL) {
+          text += line.trim() + '\n';
+          line = '';
+        }
+        lastY = y;
+        lastHeight = item.height || lastHeight;
+      }
+      text += line.trim();
+
+      // Link annotations point to the URLs the document references
+      const annotations = await page.getAnnotations();
+      for (const annotation of annotations) {
+        if (annotation.subtype === 'Link' && typeof annotation.url === 'string' && !seen.has(annotation.url)) {
+          seen.add(annotation.url);
+          links.push({ url: annotation.url, text: annotation.url, inMainContent: true });
+        }
+      }
+
+      page.cleanup();
+
+      const pageText = text.replace(/\n{3,}/g, '\n\n').trim();
+      if (pageText) {
+        pages.push(`## Page ${number}\n\n${pageText}`);
+      }
+    }
+
+    const content = pages.join('\n\n');
+    for (const link of linksInText(content)) {
+      if (!seen.has(link.url)) {
+        seen.add(link.url);
+        links.push(link);
+      }
+    }
+
+    // Scanned PDFs without a text layer have no content to return
+    return {
+      contentType: 'pdf',
+      title: info.Title?.trim() || titleFromUrl(url),
+      description: info.Subject?.trim() || '',
+      content: content || 'No content found',
+      confidence: content ? 1 : 0,
+      links
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Extract a plain text document, using its first line as the title
+ * The text is decoded with the charset of the Content-Type header
+ */
+function extractText(data: Uint8Array, url: string, contentTypeHeader?: string): DocumentContent {
+  const content = decodeText(data, contentTypeHeader).replace(/\r\n?/g, '\n').trim();
+  const firstLine = content.split('\n').find(line => line.trim())?.trim() || '';
+
+  return {
+    contentType: 'text',
+    title: firstLine.length > 0 && firstLine.length <= 120 ? firstLine : titleFromUrl(url),
+    description: '',
+    content: content || 'No content found',
+    confidence: content ? 1 : 0,
+    links: linksInText(content)
+  };
+}
+
+/**
+ * Extract a JSON document, pretty-printed
+ * Invalid JSON is returned as plain text
+ */
+function extractJson(data: Uint8Array, url: string, contentTypeHeader?: string): DocumentContent {
+  const text = decodeText(data, contentTypeHeader);
+
+  let content: string;
+  try {
+    content = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    debug(`Invalid JSON from ${url}, returning it as text`);
+    return extractText(data, url, contentTypeHeader);
+  }
+
+  return {
+    contentType: 'json',
+    title: titleFromUrl(url),
+    description: '',
+    content,
+    confidence: 1,
+    links: linksInText(content)
+  };
+}
+
+/**
+ * Extract the content of a document of the given type
+ * Text and JSON are decoded with the charset of the Content-Type header the document was served with
+ */
+export async function extractDocument(
+  data: Uint8Array,
+  contentType: ContentType,
+  url: string,
+  contentTypeHeader?: string
+): Promise<DocumentContent> {
+  debug(`Extracting ${contentType} document from ${url}`);
+
+  const document = contentType === 'pdf' ? await extractPdf(data, url)
+    : contentType === 'json' ? extractJson(data, url, contentTypeHeader)
+    : extractText(data, url, contentTypeHeader);
+
+  // Like links from HTML pages, only same-origin links are followed
+  const origin = new URL(url).origin;
+  document.links = document.links.filter(link => {
+    try {
+      return new URL(link.url).origin === origin;
+    } catch {
+      return false;
+    }
+  });
+
+  return document;
+}
+
+/**
+ * Content type of a downloaded response, undefined for HTML
+ * Falls back to the type guessed from the URL when the server doesn't say what it sent
+ */
+export function documentTypeOf(response: HttpResponse): ContentType | undefined {
+  return contentTypeFromHeader(response.contentType) ||
+    (/octet-stream|^$/.test(response.contentType) ? contentTypeFromUrl(response.url) : undefined);
+}
+
+/**
+ * Download a document and extract it according to its content type
+ * Returns undefined for HTML, which is extracted separately
+ */
+export async function fetchDocument(url: string, signal?: AbortSignal): Promise<DocumentContent | undefined> {
+  const response = await fetchUrl(url, {}, signal);
+  const contentType = documentTypeOf(response);
+
+  return contentType ? await extractDocument(response.body, contentType, url, response.contentType) : undefined;
+}
@@ -0,0 +1,125 @@
+import http from 'http';
+import https from 'https';
+import fetch, { Response } from 'node-fetch';
+import { USER_AGENT } from './browser.js';
+import { config, debug } from './config.js';
+import { assertUrlAllowed, guardedLookup } from './url-guard.js';
+
+/**
+ * A response downloaded without the browser
+ */
+export interface HttpResponse {
+  // URL after redirects
+  url: string;
+  status: number;
+  contentType: string;
+  body: Uint8Array;
+  // Caching headers
+  cacheControl?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Error thrown for responses with an error status
+ */
+export class HttpError extends Error {
+  constructor(url: string, readonly status: number, statusText: string) {
+    super(`Failed to fetch ${url}: ${status} ${statusText}`);
+    this.name = 'HttpError';
+  }
+}
+
+// Largest response body downloaded
+const MAX_RESPONSE_BYTES = 20 * 1024 * 1024;
+
+// Redirects followed before giving up
+const MAX_REDIRECTS = 10;
+
+// Agents whose connections refuse private addresses
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+/**
+ * Download a URL with the browser's user agent, within the page timeout
+ * Redirects are followed one at a time, so every URL on the way is checked by the URL guard.
+ * Throws on error statuses, so callers only see successful responses and, for conditional requests, 304s
+ */
+export async function fetchUrl(url: string, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<HttpResponse> {
+  debug(`Fetching ${url} over HTTP`);
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.PAGE_TIMEOUT);
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', abort, { once: true });
+
+  try {
+    let currentUrl = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      await assertUrlAllowed(currentUrl, controller.signal);
+
+      response = await fetch(currentUrl, {
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml,application/pdf,application/json,text/plain;q=0.9,*/*;q=0.8',
+          ...headers
+        },
+        agent: target => target.protocol === 'https:' ? httpsAgent : httpAgent,
+        redirect: 'manual',
+        size: MAX_RESPONSE_BYTES,
+        signal: controller.signal
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+        break;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Failed to fetch ${url}: more than ${MAX_REDIRECTS} redirects`);
+      }
+
+      currentUrl = new URL(location, currentUrl).href;
+      debug(`Following redirect to ${currentUrl}`);
+    }
+
+    if (!response.ok && response.status !== 304) {
+      throw new HttpError(currentUrl, response.status, response.statusText);
+    }
+
+    return {
+      url: currentUrl,
+      status: response.status,
+      contentType: response.headers.get('content-type') || '',
+      body: new Uint8Array(await response.arrayBuffer()),
+      cacheControl: response.headers.get('cache-control') || undefined,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined
+    };
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Decode text with the charset of a Content-Type header, defaulting to UTF-8 for missing or unknown charsets
+ */
+export function decodeText(data: Uint8Array, contentType: string = ''): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data);
+  } catch {
+    return new TextDecoder().decode(data);
+  }
+}
+
+/**
+ * Decode a response body with the charset of its Content-Type, defaulting to UTF-8
+ */
+export function decodeBody(response: HttpResponse): string {
+  return decodeText(response.body, response.contentType);
+}
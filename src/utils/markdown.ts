@@ -0,0 +1,208 @@
+/**
+ * Convert an element and its descendants to Markdown
+ * Keeps headings, lists, tables, code blocks with language hints, blockquotes, emphasis and links.
+ *
+ * The function is self-contained so it can be passed to page.evaluate and run inside the browser;
+ * it must not reference anything outside its own body.
+ */
+export function htmlToMarkdown(root: Element, excludeSelector: string = '', baseUrl: string = ''): string {
+  const skippedTags = new Set(['script', 'style', 'noscript', 'iframe', 'svg', 'canvas', 'template', 'button', 'input', 'select', 'textarea', 'form']);
+  const codeBlocks: string[] = [];
+
+  const resolveUrl = (href: string): string => {
+    try {
+      return new URL(href, baseUrl || undefined).href;
+    } catch {
+      return href;
+    }
+  };
+
+  const block = (text: string): string => {
+    const trimmed = text.trim();
+    return trimmed ? `\n\n${trimmed}\n\n` : '';
+  };
+
+  const inlineText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+  const children = (element: Element, listDepth: number): string => {
+    let output = '';
+
+    element.childNodes.forEach(child => {
+      let piece = convert(child, listDepth);
+
+      // Text at the start of a line doesn't need the whitespace collapsed from the source
+      if (child.nodeType === 3 && (output === '' || output.endsWith('\n'))) {
+        piece = piece.replace(/^ +/, '');
+      }
+
+      output += piece;
+    });
+
+    return output;
+  };
+
+  const convertList = (element: Element, ordered: boolean, listDepth: number): string => {
+    const indent = '  '.repeat(listDepth);
+    let index = Number(element.getAttribute('start')) || 1;
+
+    const items = Array.from(element.children)
+      .filter(child => child.tagName.toLowerCase() === 'li')
+      .map(item => {
+        const marker = ordered ? `${index++}.` : '-';
+        const lines = children(item, listDepth + 1).trim().replace(/\n{2,}/g, '\n').split('\n');
+
+        // Continuation lines are indented under the marker, nested list lines already are
+        const rest = lines.slice(1).map(line => line.startsWith(indent + '  ') ? line : `${indent}  ${line.trim()}`);
+        return [`${indent}${marker} ${lines[0].trim()}`, ...rest].join('\n');
+      });
+
+    return listDepth > 0 ? `\n${items.join('\n')}\n` : block(items.join('\n'));
+  };
+
+  const convertTable = (element: Element): string => {
+    const rows = Array.from(element.querySelectorAll('tr'))
+      .map(row => Array.from(row.children)
+        .filter(cell => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+        .map(cell => inlineText(children(cell, 0)).replace(/\|/g, '\\|')))
+      .filter(cells => cells.length > 0);
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    // Markdown tables need a header row, the first row is used as such
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const formatRow = (cells: string[]) =>
+      `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+    return block([
+      formatRow(rows[0]),
+      formatRow(Array(columns).fill('---')),
+      ...rows.slice(1).map(formatRow)
+    ].join('\n'));
+  };
+
+  const convertCode = (element: Element): string => {
+    const code = element.querySelector('code');
+    const classes = `${element.getAttribute('class') || ''} ${code?.getAttribute('class') || ''}`;
+    const language = /(?:^|\s)(?:lang|language)-([\w+#.-]+)/.exec(classes)?.[1] ||
+      element.getAttribute('data-lang') || element.getAttribute('data-language') || '';
+    const text = (element.textContent || '').replace(/^\n+|\s+$/g, '');
+
+    // Code is kept out of the whitespace cleanup and put back at the end
+    codeBlocks.push(`\`\`\`${language}\n${text}\n\`\`\``);
+    return `\n\n\u0000${codeBlocks.length - 1}\u0000\n\n`;
+  };
+
+  const convert = (node: Node, listDepth: number): string => {
+    // Text nodes, with source whitespace collapsed
+    if (node.nodeType === 3) {
+      return (node.textContent || '').replace(/\s+/g, ' ');
+    }
+
+    if (node.nodeType !== 1) {
+      return '';
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (skippedTags.has(tag) || element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') {
+      return '';
+    }
+
+    if (excludeSelector && element !== root && element.matches(excludeSelector)) {
+      return '';
+    }
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const text = inlineText(children(element, listDepth));
+        return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+      }
+      case 'p':
+      case 'div':
+      case 'section':
+      case 'article':
+      case 'main':
+      case 'header':
+      case 'footer':
+      case 'aside':
+      case 'nav':
+      case 'figure':
+      case 'figcaption':
+      case 'details':
+      case 'summary':
+      case 'dl':
+      case 'dt':
+      case 'dd':
+        return block(children(element, listDepth));
+      case 'br':
+        return '\n';
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'ul':
+      case 'ol':
+        return convertList(element, tag === 'ol', listDepth);
+      case 'table':
+        return convertTable(element);
+      case 'pre':
+        return convertCode(element);
+      case 'blockquote': {
+        const text = children(element, 0).trim().replace(/\n{3,}/g, '\n\n');
+        return text ? block(text.split('\n').map(line => `> ${line}`).join('\n')) : '';
+      }
+      case 'strong':
+      case 'b': {
+        const text = inlineText(children(element, listDepth));
+        return text ? `**${text}**` : '';
+      }
+      case 'em':
+      case 'i': {
+        const text = inlineText(children(element, listDepth));
+        return text ? `*${text}*` : '';
+      }
+      case 'code': {
+        const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+        return text ? `\`${text}\`` : '';
+      }
+      case 'a': {
+        const text = inlineText(children(element, listDepth));
+        const href = element.getAttribute('href');
+
+        if (!text || !href || href.startsWith('#') || href.startsWith('javascript:')) {
+          return text;
+        }
+        return `[${text}](${resolveUrl(href)})`;
+      }
+      case 'img': {
+        const alt = inlineText(element.getAttribute('alt') || '');
+        const src = element.getAttribute('src');
+        return alt && src ? `![${alt}](${resolveUrl(src)})` : '';
+      }
+      default:
+        return children(element, listDepth);
+    }
+  };
+
+  return convert(root, 0)
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .replace(/^(.*?)\u0000(\d+)\u0000/gm, (_, prefix: string, index: string) => {
+      // Code inside list items and blockquotes continues their indentation and quote markers,
+      // with the list marker of the first line turned into spaces
+      const continuation = prefix.replace(/(?:[-*+]|\d+\.)(?= )/g, marker => ' '.repeat(marker.length));
+      return codeBlocks[Number(index)]
+        .split('\n')
+        .map((line, i) => i === 0 ? prefix + line : line ? continuation + line : continuation.trimEnd())
+        .join('\n');
+    });
+}
@@ -0,0 +1,172 @@
+/**
+ * Find the main content of a document with Readability-style scoring
+ * Marks the chosen root with rootAttribute, and its children that are not part of the content
+ * with excludeAttribute. Returns the confidence of the choice, between 0 and 1.
+ *
+ * Paragraphs add their score (text length and commas) to their ancestors, which start from
+ * weights for their tag and class/id names. The best ancestor, penalised by its link density,
+ * becomes the root, and related siblings are merged by marking their common parent instead.
+ *
+ * The function is self-contained so it can be passed to page.evaluate and run inside the browser;
+ * it must not reference anything outside its own body.
+ */
+export function findMainContent(doc: Document, rootAttribute: string, excludeAttribute: string): number {
+  const positivePattern = /article|body|content|entry|hentry|main|page|post|text|blog|story|prose|markdown|docs?-?content/i;
+  const negativePattern = /banner|combx|comment|com-|contact|foot|footnote|masthead|meta|outbrain|promo|related|share|shoutbox|sidebar|skyscraper|sponsor|shopping|widget|nav|menu|breadcrumb|cookie|consent|popup|modal|subscribe|newsletter|advert|\bads?\b/i;
+  const boilerplateTags = new Set(['nav', 'header', 'footer', 'aside', 'form', 'script', 'style', 'noscript']);
+  const paragraphTags = new Set(['p', 'pre', 'td', 'blockquote', 'li', 'dd']);
+  const scores = new Map<Element, number>();
+  const body = doc.body;
+
+  if (!body) {
+    return 0;
+  }
+
+  const textLength = (element: Element): number => (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+  const linkDensity = (element: Element): number => {
+    const length = textLength(element);
+    if (length === 0) {
+      return 0;
+    }
+
+    let linkLength = 0;
+    element.querySelectorAll('a').forEach(link => {
+      linkLength += textLength(link);
+    });
+    return linkLength / length;
+  };
+
+  const classWeight = (element: Element): number => {
+    let weight = 0;
+    for (const name of [element.getAttribute('class') || '', element.getAttribute('id') || '']) {
+      if (!name) {
+        continue;
+      }
+      if (negativePattern.test(name)) {
+        weight -= 25;
+      }
+      if (positivePattern.test(name)) {
+        weight += 25;
+      }
+    }
+    return weight;
+  };
+
+  const initialScore = (element: Element): number => {
+    const tag = element.tagName.toLowerCase();
+    let score = classWeight(element);
+
+    if (tag === 'article' || tag === 'main') {
+      score += 10;
+    } else if (tag === 'div' || tag === 'section') {
+      score += 5;
+    } else if (tag === 'pre' || tag === 'td' || tag === 'blockquote') {
+      score += 3;
+    } else if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(tag)) {
+      score -= 3;
+    } else if (/^h[1-6]$/.test(tag) || tag === 'th') {
+      score -= 5;
+    }
+
+    return score;
+  };
+
+  const insideBoilerplate = (element: Element): boolean => {
+    for (let current = element.parentElement; current && current !== body; current = current.parentElement) {
+      if (boilerplateTags.has(current.tagName.toLowerCase())) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // Score paragraphs and add their score to up to three levels of ancestors
+  body.querySelectorAll('*').forEach(element => {
+    const tag = element.tagName.toLowerCase();
+
+    // Divs without block children count as paragraphs
+    const isParagraph = paragraphTags.has(tag) ||
+      (tag === 'div' && !element.querySelector('div, p, pre, table, ul, ol, blockquote, section, article'));
+
+    if (!isParagraph || insideBoilerplate(element)) {
+      return;
+    }
+
+    const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text.length < 25) {
+      return;
+    }
+
+    const commas = text.split(/[,，、]/).length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = element.parentElement;
+    for (let level = 0; ancestor && level < 3; level++, ancestor = ancestor.parentElement) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore(ancestor));
+      }
+
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+
+      if (ancestor === body) {
+        break;
+      }
+    }
+  });
+
+  // Penalise candidates by their link density and pick the best
+  const candidates = Array.from(scores.entries())
+    .map(([element, score]) => ({ element, score: score * (1 - linkDensity(element)) }))
+    .sort((a, b) => b.score - a.score);
+
+  if (candidates.length === 0 || candidates[0].score <= 0) {
+    body.setAttribute(rootAttribute, '');
+    return 0.1;
+  }
+
+  const top = candidates[0];
+  let root = top.element;
+
+  // Merge siblings that score well or hold substantial low-link text
+  const parent = top.element.parentElement;
+  if (parent && top.element !== body) {
+    const threshold = Math.max(10, top.score * 0.2);
+    const siblings = Array.from(parent.children);
+    const merged = siblings.filter(sibling => {
+      if (sibling === top.element) {
+        return true;
+      }
+
+      const score = candidates.find(candidate => candidate.element === sibling)?.score || 0;
+      if (score >= threshold) {
+        return true;
+      }
+
+      const length = textLength(sibling);
+      return sibling.tagName.toLowerCase() === 'p' && length > 80 && linkDensity(sibling) < 0.25;
+    });
+
+    if (merged.length > 1) {
+      root = parent;
+      siblings
+        .filter(sibling => !merged.includes(sibling))
+        .forEach(sibling => sibling.setAttribute(excludeAttribute, ''));
+    }
+  }
+
+  root.setAttribute(rootAttribute, '');
+
+  // Confidence combines the strength of the winner, its margin over the runner-up,
+  // the amount of text found and how little of it is links
+  const second = candidates.find(candidate =>
+    !candidate.element.contains(top.element) && !top.element.contains(candidate.element));
+  const strength = Math.min(1, top.score / 50);
+  // Runners-up can score below zero, which would push the margin past 1
+  const margin = second ? Math.min(1, Math.max(0, (top.score - second.score) / top.score)) : 1;
+  const length = Math.min(1, textLength(root) / 1500);
+  const links = 1 - linkDensity(root);
+
+  return Math.round((0.35 * strength + 0.2 * margin + 0.25 * length + 0.2 * links) * 100) / 100;
+}
@@ -0,0 +1,74 @@
+/**
+ * Ad, analytics and tracking hosts whose requests the browser aborts
+ * Each entry also matches its subdomains. The list covers the networks most pages load,
+ * not every tracker, since blocking is only about saving time and bandwidth.
+ */
+const TRACKER_HOSTS = [
+  // Google ads and analytics
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googletagservices.com',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'doubleclick.net',
+  'adservice.google.com',
+  'analytics.google.com',
+  // Social widgets and pixels
+  'connect.facebook.net',
+  'analytics.twitter.com',
+  'ads-twitter.com',
+  'px.ads.linkedin.com',
+  'snap.licdn.com',
+  'analytics.tiktok.com',
+  'ct.pinterest.com',
+  // Ad networks
+  'adnxs.com',
+  'adsrvr.org',
+  'amazon-adsystem.com',
+  'criteo.com',
+  'criteo.net',
+  'outbrain.com',
+  'taboola.com',
+  'pubmatic.com',
+  'rubiconproject.com',
+  'openx.net',
+  'casalemedia.com',
+  'moatads.com',
+  'scorecardresearch.com',
+  'quantserve.com',
+  // Analytics, session recording and tag managers
+  'hotjar.com',
+  'hotjar.io',
+  'mouseflow.com',
+  'fullstory.com',
+  'clarity.ms',
+  'segment.com',
+  'segment.io',
+  'mixpanel.com',
+  'amplitude.com',
+  'heap.io',
+  'heapanalytics.com',
+  'newrelic.com',
+  'nr-data.net',
+  'chartbeat.com',
+  'chartbeat.net',
+  'parsely.com',
+  'optimizely.com',
+  'crazyegg.com',
+  'statcounter.com',
+  'mc.yandex.ru',
+  'bat.bing.com',
+  // Consent banners, which load their own trackers
+  'cookielaw.org',
+  'onetrust.com',
+  'cookiebot.com',
+  'trustarc.com'
+];
+
+/**
+ * Check whether a host is a known ad, analytics or tracking host
+ */
+export function isTrackerHost(host: string): boolean {
+  const hostname = host.toLowerCase();
+  return TRACKER_HOSTS.some(tracker => hostname === tracker || hostname.endsWith(`.${tracker}`));
+}
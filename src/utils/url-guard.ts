@@ -0,0 +1,235 @@
+import dns from 'dns';
+import net from 'net';
+import { untilAborted } from './abort.js';
+import { config, debug } from './config.js';
+
+/**
+ * Error thrown for URLs the server must not request, such as private network addresses
+ */
+export class BlockedUrlError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Blocked URL ${url}: ${reason}`);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+// Schemes that never leave the browser, allowed for subrequests but not as pages
+const LOCAL_SCHEMES = ['data:', 'blob:', 'about:'];
+
+// How long the verdict on a host's addresses is kept, so subrequests don't resolve it again
+const HOST_VERDICT_TTL = 60 * 1000;
+
+const hostVerdicts = new Map<string, { reason: string | undefined, expiresAt: number }>();
+
+/**
+ * Parse an IPv4 address into its four octets
+ */
+function ipv4Octets(address: string): number[] | undefined {
+  const octets = address.split('.').map(Number);
+  return octets.length === 4 && octets.every(octet => Number.isInteger(octet) && octet >= 0 && octet <= 255)
+    ? octets
+    : undefined;
+}
+
+/**
+ * Parse an IPv6 address into its sixteen bytes, expanding :: and a dotted IPv4 tail
+ */
+function ipv6Bytes(address: string): number[] | undefined {
+  let text = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  const tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(text)?.[1];
+  if (tail) {
+    const octets = ipv4Octets(tail);
+    if (!octets) {
+      return undefined;
+    }
+    text = `${text.slice(0, -tail.length)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return undefined;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return undefined;
+  }
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return undefined;
+  }
+
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * IPv6 addresses embedding an IPv4 address are judged by that address, whichever way they are written,
+ * as the URL parser rewrites [::ffff:127.0.0.1] to [::ffff:7f00:1].
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b, c] = ipv4Octets(address)!;
+
+    return a === 0 ||                              // "this" network
+      a === 10 ||                                  // private
+      a === 127 ||                                 // loopback
+      (a === 100 && b >= 64 && b <= 127) ||        // carrier-grade NAT
+      (a === 169 && b === 254) ||                  // link-local, including cloud metadata
+      (a === 172 && b >= 16 && b <= 31) ||         // private
+      (a === 192 && b === 0 && c === 0) ||         // IETF protocol assignments
+      (a === 192 && b === 0 && c === 2) ||         // documentation
+      (a === 192 && b === 168) ||                  // private
+      (a === 198 && (b === 18 || b === 19)) ||     // benchmarking
+      (a === 198 && b === 51 && c === 100) ||      // documentation
+      (a === 203 && b === 0 && c === 113) ||       // documentation
+      a >= 224;                                    // multicast and reserved
+  }
+
+  const bytes = net.isIPv6(address) ? ipv6Bytes(address) : undefined;
+  if (!bytes) {
+    return true;
+  }
+
+  const isZero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const embedded = bytes.slice(12).join('.');
+
+  if (isZero(0, 12)) {
+    return isPrivateAddress(embedded);             // IPv4-compatible ::/96, including :: and ::1
+  }
+  if (isZero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return isPrivateAddress(embedded);             // IPv4-mapped ::ffff:0:0/96
+  }
+  if (bytes[0] === 0 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b) {
+    // NAT64 64:ff9b::/96, the local-use 64:ff9b:1::/48 only reaches local translators
+    return isZero(4, 12) ? isPrivateAddress(embedded) : true;
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) {
+    return isPrivateAddress(bytes.slice(2, 6).join('.'));  // 6to4 2002::/16
+  }
+
+  return (bytes[0] & 0xfe) === 0xfc ||                       // unique local
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) ||    // link-local
+    bytes[0] === 0xff ||                                    // multicast
+    (bytes[0] === 0x20 && bytes[1] === 0x01 && bytes[2] === 0x0d && bytes[3] === 0xb8);  // documentation
+}
+
+/**
+ * Resolve a host and return the reason it is blocked, or undefined if all its addresses are public
+ * The browser resolves hosts again when it connects, so for browser requests this check can't stop
+ * a host that rebinds to a private address in between; HTTP agents check again with guardedLookup.
+ * Without resolve, only IP addresses and hosts with a known verdict are checked.
+ */
+async function checkHost(hostname: string, resolve: boolean): Promise<string | undefined> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+
+  if (net.isIP(host)) {
+    return isPrivateAddress(host) ? `${host} is a private network address` : undefined;
+  }
+
+  const known = hostVerdicts.get(host);
+  if (known && known.expiresAt > Date.now()) {
+    return known.reason;
+  }
+  if (!resolve) {
+    return undefined;
+  }
+
+  let reason: string | undefined;
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    reason = blocked ? `${host} resolves to the private network address ${blocked.address}` : undefined;
+  } catch (error) {
+    debug(`Error resolving ${host}:`, error);
+    reason = `${host} could not be resolved`;
+  }
+
+  hostVerdicts.set(host, { reason, expiresAt: Date.now() + HOST_VERDICT_TTL });
+  return reason;
+}
+
+/**
+ * Return the reason a URL must not be requested, or undefined if it may be
+ * Only http and https URLs on ALLOWED_PORTS whose host resolves to public addresses are allowed,
+ * unless ALLOW_PRIVATE_NETWORK is set for deployments that crawl internal sites.
+ * With resolve set to false, host names are not looked up, for URLs that are only checked against the cache.
+ */
+export async function checkUrl(
+  url: string,
+  options: { allowLocalSchemes?: boolean, resolve?: boolean } = {}
+): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalid URL';
+  }
+
+  if (LOCAL_SCHEMES.includes(parsed.protocol)) {
+    return options.allowLocalSchemes ? undefined : `the ${parsed.protocol} scheme is not allowed`;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `the ${parsed.protocol} scheme is not allowed`;
+  }
+
+  const port = Number(parsed.port) || (parsed.protocol === 'https:' ? 443 : 80);
+  const allowedPorts = config.ALLOWED_PORTS.split(',').map(value => Number(value.trim()));
+  if (!allowedPorts.includes(port)) {
+    return `port ${port} is not allowed`;
+  }
+
+  if (config.isPrivateNetworkAllowed) {
+    return undefined;
+  }
+
+  return await checkHost(parsed.hostname, options.resolve ?? true);
+}
+
+/**
+ * Throw a BlockedUrlError if a URL must not be requested
+ * Rejects with the signal's reason if it aborts while the host is resolved.
+ */
+export async function assertUrlAllowed(url: string, signal?: AbortSignal, options: { resolve?: boolean } = {}): Promise<void> {
+  const reason = await untilAborted(checkUrl(url, options), signal);
+  if (reason) {
+    throw new BlockedUrlError(url, reason);
+  }
+}
+
+/**
+ * DNS lookup for HTTP agents that refuses private addresses
+ * Checking at connection time as well closes the gap between validating a URL and connecting to it,
+ * in which the host could start resolving to a different address.
+ */
+export function guardedLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = !config.isPrivateNetworkAllowed && addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(new BlockedUrlError(hostname, `resolves to the private network address ${blocked.address}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
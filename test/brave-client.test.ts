@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { braveFetch, BraveQuotaExceededError, getBraveQuota } from '../src/services/brave-client.js';
+
+describe('braveFetch', () => {
+  // Statuses the mock API answers with, one per request, then 200
+  const statuses: number[] = [];
+  let monthlyRemaining = 1000;
+  let requests = 0;
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests++;
+      res.writeHead(statuses.shift() ?? 200, {
+        'Content-Type': 'application/json',
+        'X-RateLimit-Limit': '20, 2000',
+        'X-RateLimit-Policy': '20;w=1, 2000;w=2592000',
+        'X-RateLimit-Remaining': `19, ${monthlyRemaining}`,
+        'X-RateLimit-Reset': '1, 86400'
+      });
+      res.end('{"ok":true}');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('retries 5xx and 429 responses', async () => {
+    statuses.push(503, 429);
+    requests = 0;
+
+    const response = await braveFetch(new URL(baseUrl), 'key');
+
+    assert.deepEqual(await response.json(), { ok: true });
+    assert.equal(requests, 3);
+    assert.equal(getBraveQuota().retries, 2);
+  });
+
+  it('fails on other statuses without retrying', async () => {
+    statuses.push(422);
+    requests = 0;
+
+    await assert.rejects(braveFetch(new URL(baseUrl), 'key'), /422/);
+    assert.equal(requests, 1);
+  });
+
+  it('tracks the quota and stops once it is used up', async () => {
+    const quota = getBraveQuota();
+    assert.equal(quota.perSecondLimit, 20);
+    assert.equal(quota.monthlyLimit, 2000);
+    assert.equal(quota.monthlyRemaining, 1000);
+
+    monthlyRemaining = 0;
+    statuses.push(429);
+    await assert.rejects(braveFetch(new URL(baseUrl), 'key'), BraveQuotaExceededError);
+
+    requests = 0;
+    await assert.rejects(braveFetch(new URL(baseUrl), 'key'), BraveQuotaExceededError);
+    assert.equal(requests, 0);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { allocateBudget, trimToSentence } from '../src/services/budget.js';
+
+describe('allocateBudget', () => {
+  it('gives every item its demand when the budget allows', () => {
+    const items = [{ demand: 100, minimum: 50, weight: 1 }, { demand: 200, minimum: 50, weight: 2 }];
+    assert.deepEqual(allocateBudget(items, 1000), [100, 200]);
+  });
+
+  it('shares the budget by weight among items wanting more', () => {
+    const items = [{ demand: 1000, minimum: 50, weight: 1 }, { demand: 1000, minimum: 50, weight: 3 }];
+    assert.deepEqual(allocateBudget(items, 400), [100, 300]);
+  });
+
+  it('shares what satisfied items leave among the others', () => {
+    const items = [
+      { demand: 50, minimum: 10, weight: 1 },
+      { demand: 1000, minimum: 10, weight: 1 },
+      { demand: 1000, minimum: 10, weight: 2 }
+    ];
+    assert.deepEqual(allocateBudget(items, 350), [50, 100, 200]);
+  });
+
+  it('gives items whose share is below their minimum that minimum', () => {
+    const items = [{ demand: 1000, minimum: 150, weight: 1 }, { demand: 1000, minimum: 50, weight: 9 }];
+    assert.deepEqual(allocateBudget(items, 500), [150, 350]);
+  });
+
+  it('omits the lowest weight items whose minimums do not fit', () => {
+    const items = [
+      { demand: 1000, minimum: 200, weight: 1 },
+      { demand: 1000, minimum: 200, weight: 3 },
+      { demand: 1000, minimum: 200, weight: 2 }
+    ];
+    assert.deepEqual(allocateBudget(items, 500), [0, 300, 200]);
+  });
+
+  it('never allocates more than the budget', () => {
+    const items = [3, 1, 4, 1, 5, 9, 2, 6].map(weight => ({ demand: 700, minimum: 120, weight }));
+    for (const budget of [0, 119, 500, 1234, 5000]) {
+      const total = allocateBudget(items, budget).reduce((sum, allocation) => sum + allocation, 0);
+      assert.ok(total <= budget, `${total} > ${budget}`);
+    }
+  });
+});
+
+describe('trimToSentence', () => {
+  const text = 'Tide pools form at low tide. They hold anemones and crabs. Step only on bare rock.';
+
+  it('keeps text that fits', () => {
+    assert.equal(trimToSentence(text, text.length), text);
+  });
+
+  it('ends at the last sentence that fits', () => {
+    assert.equal(trimToSentence(text, 70), 'Tide pools form at low tide. They hold anemones and crabs.');
+  });
+
+  it('falls back to a word boundary when a sentence would lose too much', () => {
+    assert.equal(trimToSentence('Tides rise. Tide pools form where the sea leaves water behind.', 40), 'Tides rise. Tide pools form where the…');
+  });
+
+  it('cuts words that are longer than half the limit', () => {
+    assert.equal(trimToSentence('Supercalifragilisticexpialidocious', 10), 'Supercali…');
+  });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { cachePolicy, canonicalUrl, DiskCache, isFresh } from '../src/services/cache.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Wait long enough for the next write or read to get a later modification time
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('cachePolicy', () => {
+  it('stores responses without caching headers for the default TTL', () => {
+    assert.deepEqual(cachePolicy({}, DAY), { store: true, ttl: DAY, etag: undefined, lastModified: undefined });
+  });
+
+  it('lets max-age and s-maxage shorten the TTL but not extend it', () => {
+    assert.equal(cachePolicy({ cacheControl: 'public, max-age=60' }, DAY).ttl, 60000);
+    assert.equal(cachePolicy({ cacheControl: 's-maxage=120' }, DAY).ttl, 120000);
+    assert.equal(cachePolicy({ cacheControl: 'max-age=31536000' }, DAY).ttl, DAY);
+  });
+
+  it('stores no-cache responses only if they can be revalidated', () => {
+    assert.deepEqual(cachePolicy({ cacheControl: 'no-cache', etag: '"v1"' }, DAY), { store: true, ttl: 0, etag: '"v1"', lastModified: undefined });
+    assert.equal(cachePolicy({ cacheControl: 'No-Cache' }, DAY).store, false);
+    assert.equal(cachePolicy({ cacheControl: 'max-age=0', lastModified: 'Tue, 01 Sep 2026 00:00:00 GMT' }, DAY).store, true);
+  });
+
+  it('never stores no-store responses', () => {
+    assert.equal(cachePolicy({ cacheControl: 'no-store', etag: '"v1"' }, DAY).store, false);
+  });
+});
+
+describe('canonicalUrl', () => {
+  it('drops fragments and tracking parameters and sorts the query', () => {
+    assert.equal(
+      canonicalUrl('https://example.com/page?b=2&utm_source=feed&a=1&fbclid=x#section'),
+      'https://example.com/page?a=1&b=2'
+    );
+  });
+
+  it('keeps invalid URLs as they are', () => {
+    assert.equal(canonicalUrl('not a url'), 'not a url');
+  });
+});
+
+describe('isFresh', () => {
+  it('compares the expiry with the current time', () => {
+    const entry = { key: 'k', value: 1, storedAt: Date.now() };
+    assert.equal(isFresh({ ...entry, expiresAt: Date.now() + 60000 }), true);
+    assert.equal(isFresh({ ...entry, expiresAt: Date.now() - 1 }), false);
+  });
+});
+
+describe('DiskCache', () => {
+  const entry = (value: string) => ({ value, storedAt: 0, expiresAt: Date.now() + DAY });
+  const newCache = (maxBytes: number, enabled?: boolean) =>
+    new DiskCache(mkdtempSync(path.join(os.tmpdir(), 'disk-cache-test-')), maxBytes, enabled);
+
+  it('reads back what it wrote, by namespace and key', async () => {
+    const cache = newCache(1024 * 1024);
+    await cache.set('pages', 'https://example.com/', entry('page'));
+
+    assert.equal((await cache.get<string>('pages', 'https://example.com/'))?.value, 'page');
+    assert.equal(await cache.get('robots', 'https://example.com/'), undefined);
+    assert.equal(await cache.get('pages', 'https://example.com/other'), undefined);
+  });
+
+  it('evicts the least recently used entries once it grows too large', async () => {
+    // Entries take about 165 bytes, so four are too many and eviction stops at three, below 90% of the maximum
+    const cache = newCache(600);
+    const value = 'x'.repeat(100);
+
+    for (const key of ['a', 'b', 'c']) {
+      await cache.set('pages', key, entry(value));
+      await tick();
+    }
+    // Reading a makes b the least recently used
+    await cache.get('pages', 'a');
+    await tick();
+    await cache.set('pages', 'd', entry(value));
+
+    const present = [];
+    for (const key of ['a', 'b', 'c', 'd']) {
+      if (await cache.get('pages', key)) {
+        present.push(key);
+      }
+    }
+    assert.deepEqual(present, ['a', 'c', 'd']);
+  });
+
+  it('neither reads nor writes when disabled', async () => {
+    const cache = newCache(1024 * 1024, false);
+    await cache.set('pages', 'a', entry('page'));
+    assert.equal(await cache.get('pages', 'a'), undefined);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+const ARTICLE = `<html><head><title>Article</title></head><body><article>
+  <h1>Article</h1>
+  <p>${'This paragraph is long enough to be taken for the main content of the page, with commas, clauses and detail. '.repeat(4)}</p>
+</article></body></html>`;
+
+describe('performDeepSearch with cache only', () => {
+  const requests: string[] = [];
+  // Version of the page at /versioned, whose ETag changes with it
+  let version = 1;
+  let server: http.Server;
+  let baseUrl: string;
+  let performDeepSearch: typeof import('../src/services/puppeteer.js').performDeepSearch;
+  let extractContentFromUrl: typeof import('../src/services/puppeteer.js').extractContentFromUrl;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      if (req.url === '/robots.txt') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end('User-agent: *\nDisallow: /b\n');
+      } else if (req.url === '/versioned' && req.headers['if-none-match'] === `"${version}"`) {
+        res.writeHead(304).end();
+      } else if (req.url === '/versioned') {
+        res.writeHead(200, { 'Content-Type': 'text/html', 'Cache-Control': 'no-cache', 'ETag': `"${version}"` })
+          .end(ARTICLE.replace(/Article/g, `Version ${version}`));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end(ARTICLE);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+
+    // The configuration is read when the modules load, so the environment is set up first
+    process.env.CACHE_DIR = mkdtempSync(path.join(os.tmpdir(), 'crawl-cache-test-'));
+    process.env.ALLOW_PRIVATE_NETWORK = 'true';
+    process.env.ALLOWED_PORTS = String(port);
+    process.env.MIN_HOST_INTERVAL = '0';
+    ({ performDeepSearch, extractContentFromUrl } = await import('../src/services/puppeteer.js'));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('sends no requests, not even for robots.txt, when nothing is cached', async () => {
+    const result = await performDeepSearch([`${baseUrl}/a`, `${baseUrl}/b`], { mode: 'http', cache: 'only' });
+
+    assert.deepEqual(requests, []);
+    assert.equal(result.pages.length, 0);
+    assert.deepEqual(result.skipped, []);
+    assert.deepEqual(result.errors.map(error => error.error.startsWith('Not in the cache')), [true, true]);
+  });
+
+  it('serves cached pages and applies cached robots.txt rules without requests', async () => {
+    await performDeepSearch([`${baseUrl}/a`, `${baseUrl}/b`], { mode: 'http' });
+    assert.deepEqual([...requests].sort(), ['/a', '/robots.txt']);
+    requests.length = 0;
+
+    const result = await performDeepSearch([`${baseUrl}/a`, `${baseUrl}/b`], { mode: 'http', cache: 'only' });
+
+    assert.deepEqual(requests, []);
+    assert.deepEqual(result.pages.map(page => page.url), [`${baseUrl}/a`]);
+    assert.deepEqual(result.skipped.map(skipped => skipped.url), [`${baseUrl}/b`]);
+  });
+
+  it('keeps the new version a revalidation returns instead of fetching the page again', async () => {
+    const url = `${baseUrl}/versioned`;
+    assert.equal((await extractContentFromUrl(url, { mode: 'http' })).title, 'Version 1');
+
+    version = 2;
+    requests.length = 0;
+    assert.equal((await extractContentFromUrl(url, { mode: 'http' })).title, 'Version 2');
+    assert.deepEqual(requests, ['/versioned']);
+
+    requests.length = 0;
+    assert.equal((await extractContentFromUrl(url, { mode: 'http' })).title, 'Version 2');
+    assert.deepEqual(requests, ['/versioned']);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+const QUERY = 'tide pools';
+
+// An article of many paragraphs about the query, longer than any output budget under test
+function article(name: string): string {
+  const paragraphs = Array.from({ length: 30 }, (_, index) =>
+    `<p>Tide pools on ${name} shore number ${index} hold anemones and crabs. ` +
+    'Each tide pool is refilled twice a day by the sea. Visitors to the tide pools should step only on bare rock. ' +
+    'The pools are richest at the lowest tides of the year.</p>');
+
+  return `<html><head><title>Tide pools of ${name}</title></head><body><article><h1>Tide pools of ${name}</h1>${paragraphs.join('')}</article></body></html>`;
+}
+
+describe('deep-search tools output budget', () => {
+  let server: http.Server;
+  let callTool: typeof import('../src/tools/registry.js').callTool;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/robots.txt') {
+        res.writeHead(404).end();
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end(article(req.url!.slice(1)));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'deep-search-test-'));
+    const fixture = path.join(dir, 'fixture.json');
+    writeFileSync(fixture, JSON.stringify({
+      [QUERY]: ['north', 'south', 'east'].map(name => ({ title: `Tide pools of ${name}`, url: `http://127.0.0.1:${port}/${name}` }))
+    }));
+
+    // The configuration is read when the modules load, so the environment is set up first
+    process.env.SEARCH_PROVIDER = 'fixture';
+    process.env.SEARCH_FIXTURE_FILE = fixture;
+    process.env.CACHE_DIR = dir;
+    process.env.ALLOW_PRIVATE_NETWORK = 'true';
+    process.env.ALLOWED_PORTS = String(port);
+    process.env.MIN_HOST_INTERVAL = '0';
+    ({ callTool } = await import('../src/tools/registry.js'));
+    await import('../src/tools/deep-search.js');
+    await import('../src/tools/deep-search-structured.js');
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  for (const maxOutputChars of [2000, 5000]) {
+    it(`truncates to at most and nearly all of ${maxOutputChars} characters`, async () => {
+      const result = await callTool('deep-search', { query: QUERY, mode: 'http', passages: 10, maxOutputChars });
+      const text = (result.content[0] as { text: string }).text;
+
+      assert.ok(!result.isError, text);
+      assert.match(text, /Truncated pages: /);
+      assert.ok(text.length <= maxOutputChars, `${text.length} characters`);
+      assert.ok(text.length >= maxOutputChars * 0.9, `${text.length} characters`);
+    });
+
+    it(`fits the structured content in at most and nearly all of ${maxOutputChars} characters`, async () => {
+      const result = await callTool('deep-search-structured', { query: QUERY, mode: 'http', passages: 10, maxOutputChars });
+      const json = JSON.stringify(result.structuredContent);
+      const results = (result.structuredContent as { results: Array<{ extractedContent?: Record<string, unknown> }> }).results;
+
+      assert.ok(!result.isError);
+      assert.ok(json.length <= maxOutputChars, `${json.length} characters`);
+      assert.ok(json.length >= maxOutputChars * 0.9, `${json.length} characters`);
+      assert.ok(results.some(result => result.extractedContent));
+      assert.ok(results.every(result => !result.extractedContent || !('content' in result.extractedContent)));
+      assert.ok(!(result.content[0] as { text: string }).text.includes('anemones'));
+    });
+  }
+});
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractDocument } from '../src/utils/document-extractor.js';
+
+describe('extractDocument', () => {
+  // "Café crème" in ISO-8859-1, where é and è are single bytes that are invalid as UTF-8
+  const latin1 = Uint8Array.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x63, 0x72, 0xe8, 0x6d, 0x65]);
+
+  it('decodes text with the charset of the Content-Type header', async () => {
+    const document = await extractDocument(latin1, 'text', 'https://example.com/menu.txt', 'text/plain; charset=ISO-8859-1');
+    assert.equal(document.content, 'Café crème');
+  });
+
+  it('decodes JSON with the charset of the Content-Type header', async () => {
+    const json = Uint8Array.from([0x22, ...latin1, 0x22]);
+    const document = await extractDocument(json, 'json', 'https://example.com/menu.json', 'application/json; charset="iso-8859-1"');
+    assert.equal(document.content, '"Café crème"');
+  });
+
+  it('defaults to UTF-8 without a charset', async () => {
+    const document = await extractDocument(new TextEncoder().encode('Café crème'), 'text', 'https://example.com/menu.txt', 'text/plain');
+    assert.equal(document.content, 'Café crème');
+  });
+});
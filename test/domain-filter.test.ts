@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+let domainFilter: typeof import('../src/services/domain-filter.js');
+
+before(async () => {
+  // The configuration is read when the modules load, so the environment is set up first
+  process.env.DENIED_DOMAINS = 'tracker.example, https://ads.example/';
+  domainFilter = await import('../src/services/domain-filter.js');
+});
+
+describe('parseDomainList', () => {
+  it('normalizes the patterns of a comma-separated list', () => {
+    assert.deepEqual(domainFilter.parseDomainList(' Python.org , https://docs.rs/std, ,*.example.com:8080'), ['python.org', 'docs.rs', '*.example.com']);
+  });
+});
+
+describe('hostMatches', () => {
+  const cases: Array<[string, string, boolean]> = [
+    ['python.org', 'python.org', true],
+    ['docs.python.org', 'python.org', true],
+    ['notpython.org', 'python.org', false],
+    ['DOCS.Python.org', 'https://python.org/', true],
+    ['docs.python.org', '*.python.org', true],
+    ['python.org', '*.python.org', false],
+    ['en.wiki.example.com', 'en.*.example.com', true],
+    ['en.example.com', 'en.*.example.com', false],
+    ['example.com', '', false]
+  ];
+
+  for (const [host, pattern, expected] of cases) {
+    it(`${expected ? 'matches' : 'does not match'} ${host} against "${pattern}"`, () => {
+      assert.equal(domainFilter.hostMatches(host, pattern), expected);
+    });
+  }
+});
+
+describe('createDomainFilter', () => {
+  it('filters out denied domains from the configuration', () => {
+    const filter = domainFilter.createDomainFilter();
+
+    assert.equal(filter('https://cdn.tracker.example/pixel'), 'Denied domain tracker.example');
+    assert.equal(filter('https://ads.example/'), 'Denied domain ads.example');
+    assert.equal(filter('https://python.org/'), undefined);
+  });
+
+  it('confines URLs to the included domains and keeps them from the excluded ones', () => {
+    const filter = domainFilter.createDomainFilter({ includeDomains: ['python.org', '*.readthedocs.io'], excludeDomains: ['wiki.python.org'] });
+
+    assert.equal(filter('https://docs.python.org/3/'), undefined);
+    assert.equal(filter('https://pip.readthedocs.io/'), undefined);
+    assert.equal(filter('https://wiki.python.org/moin'), 'Excluded domain wiki.python.org');
+    assert.equal(filter('https://example.com/'), 'Not an included domain');
+  });
+
+  it('puts denial and exclusion before inclusion', () => {
+    const filter = domainFilter.createDomainFilter({ includeDomains: ['tracker.example'], excludeDomains: ['tracker.example'] });
+    assert.equal(filter('https://tracker.example/'), 'Denied domain tracker.example');
+  });
+
+  it('reports invalid URLs', () => {
+    assert.equal(domainFilter.createDomainFilter()('not a url'), 'Invalid URL');
+  });
+});
+
+describe('withSiteOperators', () => {
+  it('leaves the query alone without domains', () => {
+    assert.equal(domainFilter.withSiteOperators('tide pools'), 'tide pools');
+  });
+
+  it('adds a site: operator for one included domain and alternatives for several', () => {
+    assert.equal(domainFilter.withSiteOperators('tide pools', { includeDomains: ['https://noaa.gov/'] }), 'tide pools site:noaa.gov');
+    assert.equal(
+      domainFilter.withSiteOperators('tide pools', { includeDomains: ['noaa.gov', '*.edu.au'] }),
+      'tide pools (site:noaa.gov OR site:edu.au)'
+    );
+  });
+
+  it('negates excluded domains and leaves inner wildcards to the crawl filter', () => {
+    assert.equal(
+      domainFilter.withSiteOperators('tide pools', { includeDomains: ['en.*.example.com'], excludeDomains: ['pinterest.com'] }),
+      'tide pools -site:pinterest.com'
+    );
+  });
+});
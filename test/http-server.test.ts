@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { startHttpServer } from '../src/http-server.js';
+import { createServer } from '../src/server.js';
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+});
+
+interface Reply {
+  status: number;
+  sessionId?: string;
+}
+
+// Send an initialize request, with the Host header set explicitly as a rebinding page would
+function initializeOn(port: number, headers: Record<string, string> = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      method: 'POST',
+      path: '/mcp',
+      headers: {
+        'Host': `127.0.0.1:${port}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...headers
+      }
+    }, res => {
+      resolve({ status: res.statusCode || 0, sessionId: res.headers['mcp-session-id'] as string | undefined });
+      res.resume();
+    });
+    req.on('error', reject);
+    req.end(INITIALIZE);
+  });
+}
+
+describe('startHttpServer', () => {
+  let server: http.Server;
+  let port: number;
+
+  const initialize = (headers: Record<string, string> = {}): Promise<Reply> => initializeOn(port, headers);
+
+  before(async () => {
+    server = await startHttpServer(createServer, {
+      host: '127.0.0.1',
+      port: 0,
+      authToken: '',
+      allowedOrigins: ['https://app.example.com'],
+      maxSessions: 2
+    });
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('rejects requests addressed to foreign hosts', async () => {
+    const reply = await initialize({ 'Host': `evil.example:${port}` });
+    assert.equal(reply.status, 403);
+  });
+
+  it('rejects requests from foreign origins', async () => {
+    const reply = await initialize({ 'Origin': 'http://evil.example' });
+    assert.equal(reply.status, 403);
+  });
+
+  it('accepts loopback and listed origins, and requests without an origin', async () => {
+    const fromLoopback = await initialize({ 'Host': `localhost:${port}`, 'Origin': `http://localhost:${port}` });
+    assert.equal(fromLoopback.status, 200);
+    assert.ok(fromLoopback.sessionId);
+
+    const fromListed = await initialize({ 'Origin': 'https://app.example.com' });
+    assert.equal(fromListed.status, 200);
+  });
+
+  it('refuses sessions beyond the maximum', async () => {
+    const reply = await initialize();
+    assert.equal(reply.status, 503);
+  });
+});
+
+describe('startHttpServer with concurrent initialize requests', () => {
+  let server: http.Server;
+  let port: number;
+
+  before(async () => {
+    // Servers that take a while to create keep sessions opening while the other requests arrive
+    const createSlowServer = async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return await createServer();
+    };
+    server = await startHttpServer(createSlowServer, { host: '127.0.0.1', port: 0, authToken: '', maxSessions: 1 });
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('counts sessions still opening against the maximum', async () => {
+    const replies = await Promise.all([initializeOn(port), initializeOn(port), initializeOn(port)]);
+    assert.deepEqual(replies.map(reply => reply.status).sort(), [200, 503, 503]);
+  });
+});
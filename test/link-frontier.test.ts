@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compareRanks, FrontierEntry, LinkFrontier, scoreLink } from '../src/services/link-frontier.js';
+
+const QUERY_TERMS = new Set(['tide', 'pools']);
+
+describe('scoreLink', () => {
+  it('scores query terms in the anchor text and path, and main content links', () => {
+    const score = scoreLink({ url: 'https://example.com/tide-pools', text: 'Tide pools guide', inMainContent: true }, 0, QUERY_TERMS);
+    // Anchor overlap 3, path overlap 1.5, main content 1 plus the position bonus 0.5
+    assert.equal(score, 6);
+  });
+
+  it('gives links later in the main content a smaller position bonus', () => {
+    const score = scoreLink({ url: 'https://example.com/other', text: 'Other', inMainContent: true }, 10, QUERY_TERMS);
+    assert.equal(score, 1.25);
+  });
+
+  it('penalizes boilerplate anchors', () => {
+    const score = scoreLink({ url: 'https://example.com/privacy', text: ' Privacy Policy ', inMainContent: false }, 0, QUERY_TERMS);
+    assert.equal(score, -2);
+  });
+
+  it('matches query terms in percent-encoded paths', () => {
+    const score = scoreLink({ url: 'https://example.com/caf%C3%A9', text: 'Lunch', inMainContent: false }, 0, new Set(['café']));
+    assert.equal(score, 1.5);
+  });
+});
+
+describe('compareRanks', () => {
+  it('orders by depth, then by discovery position', () => {
+    const ranks = [[1, 0], [2], [0, 5], [0]];
+    assert.deepEqual(ranks.sort(compareRanks), [[0], [2], [0, 5], [1, 0]]);
+  });
+});
+
+describe('LinkFrontier', () => {
+  const root = (url: string, position: number): FrontierEntry => ({ url, currentDepth: 1, rootUrl: url, rank: [position] });
+
+  it('visits initial URLs first, in order, then links by score', () => {
+    const frontier = new LinkFrontier('tide pools');
+    const first = root('https://a.example/', 0);
+    frontier.addInitial(first);
+    frontier.addInitial(root('https://b.example/', 1));
+    frontier.addLinks([
+      { url: 'https://c.example/contact', text: 'Contact', inMainContent: false },
+      { url: 'https://d.example/tide-pools', text: 'Tide pools', inMainContent: true }
+    ], first);
+
+    assert.equal(frontier.size, 4);
+    assert.deepEqual(
+      [frontier.pop(), frontier.pop(), frontier.pop(), frontier.pop(), frontier.pop()].map(entry => entry?.url),
+      ['https://a.example/', 'https://b.example/', 'https://d.example/tide-pools', 'https://c.example/contact', undefined]
+    );
+  });
+
+  it('records the depth, root and rank of links', () => {
+    const frontier = new LinkFrontier('tide pools');
+    frontier.addLinks([{ url: 'https://a.example/next', text: 'Next', inMainContent: false }], root('https://a.example/', 3));
+
+    assert.deepEqual(frontier.pop(), { url: 'https://a.example/next', currentDepth: 2, rootUrl: 'https://a.example/', rank: [3, 0] });
+  });
+
+  it('keeps only the best maxLinks links of a page', () => {
+    const frontier = new LinkFrontier('tide pools');
+    frontier.addLinks([
+      { url: 'https://a.example/login', text: 'Log in', inMainContent: false },
+      { url: 'https://a.example/tide-pools', text: 'Tide pools', inMainContent: true },
+      { url: 'https://a.example/pools', text: 'Pools', inMainContent: true }
+    ], root('https://a.example/', 0), 2);
+
+    assert.deepEqual([frontier.pop()?.url, frontier.pop()?.url, frontier.pop()], ['https://a.example/tide-pools', 'https://a.example/pools', undefined]);
+  });
+
+  it('spreads visits across hosts with equal scores', () => {
+    const frontier = new LinkFrontier('tide pools');
+    frontier.addLinks([
+      { url: 'https://a.example/tide-pools', text: 'Tide pools', inMainContent: false },
+      { url: 'https://a.example/tide-pools-2', text: 'Tide pools', inMainContent: false },
+      { url: 'https://b.example/tide-pools', text: 'Tide pools', inMainContent: false }
+    ], root('https://a.example/', 0));
+
+    assert.deepEqual(
+      [frontier.pop()?.url, frontier.pop()?.url, frontier.pop()?.url],
+      ['https://a.example/tide-pools', 'https://b.example/tide-pools', 'https://a.example/tide-pools-2']
+    );
+  });
+});
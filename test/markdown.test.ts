@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseHTML } from 'linkedom';
+import { htmlToMarkdown } from '../src/utils/markdown.js';
+
+function toMarkdown(html: string): string {
+  const { document } = parseHTML(`<html><body><main>${html}</main></body></html>`);
+  return htmlToMarkdown(document.querySelector('main') as unknown as Element);
+}
+
+describe('htmlToMarkdown', () => {
+  it('keeps top-level code blocks as they are', () => {
+    assert.equal(
+      toMarkdown('<p>Build it:</p><pre><code class="language-sh">make\n  make install</code></pre>'),
+      'Build it:\n\n```sh\nmake\n  make install\n```'
+    );
+  });
+
+  it('indents code blocks in list items', () => {
+    assert.equal(
+      toMarkdown('<ul><li>Run this:<pre><code class="language-sh">make\nmake install</code></pre></li><li>Done</li></ul>'),
+      '- Run this:\n  ```sh\n  make\n  make install\n  ```\n- Done'
+    );
+  });
+
+  it('indents code blocks that start a list item past the marker', () => {
+    assert.equal(
+      toMarkdown('<ol><li><pre>one\ntwo</pre></li></ol>'),
+      '1. ```\n   one\n   two\n   ```'
+    );
+  });
+
+  it('quotes every line of code blocks in blockquotes', () => {
+    assert.equal(
+      toMarkdown('<blockquote><p>Try:</p><pre>a = 1\n\nb = 2</pre></blockquote><p>After</p>'),
+      '> Try:\n>\n> ```\n> a = 1\n>\n> b = 2\n> ```\n\nAfter'
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Passage, scorePassages, splitPassages, topPassages } from '../src/services/passages.js';
+
+const CONTENT = `# Tide pools
+
+Tide pools form where the sea leaves water behind at low tide.
+
+They hold anemones.
+
+## Visiting
+
+${'Step only on bare rock. '.repeat(10).trim()}
+
+## Commands
+
+\`\`\`
+tide --low
+
+table
+\`\`\``;
+
+// A passage with only the fields that matter for scoring
+const passage = (text: string): Passage => ({ text, headingPath: [], start: 0, end: text.length, score: 0 });
+
+describe('splitPassages', () => {
+  const passages = splitPassages(CONTENT, { minLength: 100, maxLength: 150 });
+
+  it('splits by headings, tracking the heading path', () => {
+    assert.deepEqual(passages.map(p => p.headingPath), [
+      ['Tide pools'],
+      ['Tide pools', 'Visiting'],
+      ['Tide pools', 'Visiting'],
+      ['Tide pools', 'Commands']
+    ]);
+  });
+
+  it('merges short paragraphs under the same heading', () => {
+    assert.equal(passages[0].text, 'Tide pools form where the sea leaves water behind at low tide.\n\nThey hold anemones.');
+  });
+
+  it('splits long paragraphs at sentence boundaries', () => {
+    assert.equal(passages[1].text, 'Step only on bare rock. '.repeat(6).trim());
+    assert.equal(passages[2].text, 'Step only on bare rock. '.repeat(4).trim());
+  });
+
+  it('keeps fenced code blocks whole', () => {
+    assert.equal(passages[3].text, '```\ntide --low\n\ntable\n```');
+  });
+
+  it('records where each passage is in the content', () => {
+    for (const { text, start, end } of passages) {
+      assert.equal(CONTENT.slice(start, end), text);
+    }
+  });
+});
+
+describe('scorePassages', () => {
+  it('scores passages by the query terms they contain, rare terms counting more', () => {
+    const passages = [
+      passage('Tide pools hold anemones and crabs.'),
+      passage('The tide comes in twice a day.'),
+      passage('Crabs hide under rocks.'),
+      passage('Bring a hat.')
+    ];
+    scorePassages(passages, 'tide pools');
+
+    const [both, tideOnly, neither, other] = passages.map(p => p.score);
+    assert.ok(both > tideOnly, `${both} <= ${tideOnly}`);
+    assert.ok(tideOnly > 0);
+    assert.equal(neither, 0);
+    assert.equal(other, 0);
+  });
+
+  it('counts the heading path as part of the passage', () => {
+    const passages = [{ ...passage('Bring a hat.'), headingPath: ['Tide pools'] }, passage('Bring water.')];
+    scorePassages(passages, 'tide pools');
+
+    assert.ok(passages[0].score > 0);
+    assert.equal(passages[1].score, 0);
+  });
+});
+
+describe('topPassages', () => {
+  it('keeps the highest scoring passages in document order', () => {
+    const passages = [1, 3, 2, 3, 0].map((score, index) => ({ ...passage(`Passage ${index}`), score }));
+    assert.deepEqual(topPassages(passages, 3).map(p => p.text), ['Passage 1', 'Passage 2', 'Passage 3']);
+  });
+});
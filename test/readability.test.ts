@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { parseHTML } from 'linkedom';
+import { extractFromHtml } from '../src/utils/content-extractor.js';
+import { findMainContent } from '../src/utils/readability.js';
+
+// Tests run from build-test/test, the fixtures stay in the source tree
+const FIXTURES = new URL('../../test/fixtures/readability/', import.meta.url);
+
+interface Fixture {
+  file: string;
+  // Selector the chosen root must match
+  root: string;
+  // Text of the article that must be extracted
+  included: string[];
+  // Text of navigation, footers, sidebars and other boilerplate that must not be
+  excluded: string[];
+  minConfidence: number;
+  maxConfidence: number;
+}
+
+const fixtures: Fixture[] = [
+  {
+    file: 'blog-post.html',
+    root: '#post',
+    included: ['local disks', 'What we tried first', 'one of the cheapest improvements'],
+    excluded: ['Archive', 'Popular posts', 'Sidebar promo', 'Copyright 2024', 'Privacy policy'],
+    minConfidence: 0.5,
+    maxConfidence: 1
+  },
+  {
+    file: 'docs-page.html',
+    root: 'article.docs-content',
+    included: ['Configuring retries', 'retries: 8', 'Non-retryable errors', 'PermanentError'],
+    excluded: ['Pricing', 'Working with queues', 'Exporting metrics', 'Found a mistake in this page'],
+    minConfidence: 0.5,
+    maxConfidence: 1
+  },
+  {
+    file: 'news-article.html',
+    root: '.article-body',
+    included: ['forty kilometres', 'outer districts', 'river embankment'],
+    excluded: ['We use cookies', 'Politics', 'Related stories', 'Tram extension delayed', 'Reader comment', 'since 1921'],
+    minConfidence: 0.5,
+    maxConfidence: 1
+  },
+  {
+    file: 'link-index.html',
+    root: '.archive',
+    included: [],
+    excluded: [],
+    minConfidence: 0,
+    maxConfidence: 0.3
+  }
+];
+
+function readFixture(file: string): string {
+  return readFileSync(new URL(file, FIXTURES), 'utf8');
+}
+
+describe('findMainContent', () => {
+  for (const fixture of fixtures) {
+    it(`chooses the main content of ${fixture.file}`, () => {
+      const doc = parseHTML(readFixture(fixture.file)).document as unknown as Document;
+      const confidence = findMainContent(doc, 'data-root', 'data-excluded');
+      const root = doc.querySelector('[data-root]');
+
+      assert.ok(root, 'no root was marked');
+      assert.ok(root.matches(fixture.root), `root is <${root.tagName.toLowerCase()} class="${root.getAttribute('class') || ''}">, expected ${fixture.root}`);
+      assert.ok(confidence >= fixture.minConfidence && confidence <= fixture.maxConfidence,
+        `confidence ${confidence} is outside ${fixture.minConfidence}-${fixture.maxConfidence}`);
+    });
+  }
+});
+
+describe('extractFromHtml', () => {
+  for (const fixture of fixtures.filter(fixture => fixture.included.length > 0)) {
+    it(`removes the boilerplate of ${fixture.file}`, () => {
+      const { content } = extractFromHtml(readFixture(fixture.file), `https://example.com/${fixture.file}`);
+
+      for (const text of fixture.included) {
+        assert.ok(content.includes(text), `content is missing "${text}"`);
+      }
+      for (const text of fixture.excluded) {
+        assert.ok(!content.includes(text), `content includes boilerplate "${text}"`);
+      }
+    });
+  }
+});
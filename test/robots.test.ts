@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RobotsTxt } from '../src/services/robots.js';
+
+const ROBOTS = `
+User-agent: *
+Disallow: /private/
+Crawl-delay: 5
+
+# Our crawler gets its own group
+User-agent: BraveDeepResearchMCP
+User-agent: OtherBot
+Disallow: /
+Allow: /docs/
+Allow: /search$
+Disallow: /docs/*.pdf$
+Crawl-delay: 2
+`;
+
+describe('RobotsTxt', () => {
+  it('applies the group naming the user agent, case-insensitively', () => {
+    const robots = new RobotsTxt(ROBOTS, 'bravedeepresearchmcp');
+
+    assert.equal(robots.isAllowed('https://example.com/private/page'), false);
+    assert.equal(robots.isAllowed('https://example.com/blog/post'), false);
+    assert.equal(robots.crawlDelay, 2);
+  });
+
+  it('matches a versioned user agent by its product token', () => {
+    const robots = new RobotsTxt(ROBOTS, 'BraveDeepResearchMCP/1.0');
+
+    assert.equal(robots.isAllowed('https://example.com/blog/post'), false);
+    assert.equal(robots.crawlDelay, 2);
+  });
+
+  it('matches groups naming a versioned user agent by their product token', () => {
+    const robots = new RobotsTxt('User-agent: BraveDeepResearchMCP/2.1\nDisallow: /\n', 'BraveDeepResearchMCP');
+    assert.equal(robots.isAllowed('https://example.com/'), false);
+  });
+
+  it('falls back to the * group for other user agents', () => {
+    const robots = new RobotsTxt(ROBOTS, 'SomeoneElse');
+
+    assert.equal(robots.isAllowed('https://example.com/private/page'), false);
+    assert.equal(robots.isAllowed('https://example.com/blog/post'), true);
+    assert.equal(robots.crawlDelay, 5);
+  });
+
+  it('lets the longest matching pattern decide', () => {
+    const robots = new RobotsTxt(ROBOTS, 'BraveDeepResearchMCP');
+
+    assert.equal(robots.isAllowed('https://example.com/docs/guide'), true);
+    assert.equal(robots.isAllowed('https://example.com/docs/guide.pdf'), false);
+    assert.equal(robots.isAllowed('https://example.com/docs/guide.pdf?download=1'), true);
+  });
+
+  it('anchors patterns ending in $', () => {
+    const robots = new RobotsTxt(ROBOTS, 'BraveDeepResearchMCP');
+
+    assert.equal(robots.isAllowed('https://example.com/search'), true);
+    assert.equal(robots.isAllowed('https://example.com/search?q=tide'), false);
+  });
+
+  it('lets Allow win ties with Disallow', () => {
+    const robots = new RobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page\n', 'BraveDeepResearchMCP');
+    assert.equal(robots.isAllowed('https://example.com/page'), true);
+  });
+
+  it('allows everything without rules, and only robots.txt itself when unreachable', () => {
+    assert.equal(new RobotsTxt('User-agent: *\nDisallow:\n', 'BraveDeepResearchMCP').isAllowed('https://example.com/any'), true);
+
+    const unreachable = RobotsTxt.unreachable();
+    assert.equal(unreachable.isAllowed('https://example.com/any'), false);
+    assert.equal(unreachable.isAllowed('https://example.com/robots.txt'), true);
+  });
+});
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+let directory: string;
+let providers: {
+  fixture: typeof import('../src/services/fixture-search.js'),
+  searxng: typeof import('../src/services/searxng-search.js')
+};
+
+before(async () => {
+  // The configuration is read when the modules load, so the environment is set up first
+  directory = mkdtempSync(path.join(os.tmpdir(), 'search-providers-test-'));
+  process.env.CACHE_DIR = directory;
+  providers = {
+    fixture: await import('../src/services/fixture-search.js'),
+    searxng: await import('../src/services/searxng-search.js')
+  };
+});
+
+describe('fixture search provider', () => {
+  let file: string;
+
+  before(() => {
+    file = path.join(directory, 'fixture.json');
+    writeFileSync(file, JSON.stringify({
+      'Tide Pools': [
+        { title: 'Tide pools', url: 'https://example.com/tide-pools' },
+        { type: 'news', title: 'Tide pool survey', url: 'https://news.example.com/survey', description: 'Counted' },
+        { title: 'Tide pool guide', url: 'https://example.org/guide' }
+      ],
+      '*': [{ title: 'Anything', url: 'https://example.com/' }]
+    }));
+  });
+
+  it('serves the results of the query, with web as the default type', async () => {
+    const response = await providers.fixture.searchWithFixture({ q: 'tide pools' }, file);
+
+    assert.equal(response.total, 3);
+    assert.deepEqual(response.results.map(result => [result.type, result.url, result.description]), [
+      ['web', 'https://example.com/tide-pools', ''],
+      ['news', 'https://news.example.com/survey', 'Counted'],
+      ['web', 'https://example.org/guide', '']
+    ]);
+  });
+
+  it('matches queries regardless of case, spacing and site: operators', async () => {
+    const provider = providers.fixture.createFixtureSearchProvider(file);
+    const response = await provider.search({ q: '  TIDE   pools (site:example.com OR site:example.org) -site:pinterest.com' });
+
+    assert.equal(provider.name, 'fixture');
+    assert.equal(response.results.length, 3);
+  });
+
+  it('pages through results by count', async () => {
+    const response = await providers.fixture.searchWithFixture({ q: 'tide pools', count: 2, offset: 1 }, file);
+    assert.deepEqual(response.results.map(result => result.url), ['https://example.org/guide']);
+  });
+
+  it('falls back to the * results for unknown queries', async () => {
+    const response = await providers.fixture.searchWithFixture({ q: 'anemones' }, file);
+    assert.deepEqual(response.results.map(result => result.url), ['https://example.com/']);
+  });
+
+  it('rejects invalid fixtures', async () => {
+    const invalid = path.join(directory, 'invalid.json');
+    writeFileSync(invalid, JSON.stringify({ 'tide pools': [{ url: 'https://example.com/' }] }));
+
+    await assert.rejects(providers.fixture.searchWithFixture({ q: 'tide pools' }, invalid), /Invalid search fixture .*: tide pools\.0\.title/);
+    await assert.rejects(providers.fixture.searchWithFixture({ q: 'tide pools' }, path.join(directory, 'missing.json')), /Failed to read search fixture/);
+  });
+});
+
+describe('SearXNG search provider', () => {
+  const requests: URL[] = [];
+  let status = 200;
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(new URL(req.url || '', 'http://localhost'));
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        query: 'tide pools',
+        number_of_results: 120,
+        results: [
+          { title: 'Tide pools', url: 'https://example.com/tide-pools', content: 'Where the sea stays', engine: 'duckduckgo', publishedDate: '2026-09-01T00:00:00' },
+          { title: 'Tide pool guide', url: 'https://example.org/guide', content: 'A guide' },
+          { url: 'not a url' }
+        ]
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/searxng`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('maps the parameters to the SearXNG search API', async () => {
+    await providers.searxng.searchWithSearxng({
+      q: 'tide pools',
+      vertical: 'news',
+      offset: 2,
+      search_lang: 'en',
+      country: 'gb',
+      safesearch: 'strict',
+      freshness: 'pw',
+      cache: 'refresh'
+    }, baseUrl);
+
+    const request = requests.at(-1)!;
+    assert.equal(request.pathname, '/searxng/search');
+    assert.deepEqual(Object.fromEntries(request.searchParams), {
+      q: 'tide pools',
+      format: 'json',
+      categories: 'news',
+      pageno: '3',
+      language: 'en-GB',
+      safesearch: '2',
+      time_range: 'week'
+    });
+  });
+
+  it('maps the results, typed by the vertical', async () => {
+    const response = await providers.searxng.searchWithSearxng({ q: 'tide pools', vertical: 'videos', cache: 'refresh' }, baseUrl);
+
+    assert.equal(response.total, 120);
+    assert.deepEqual(response.results[0], {
+      type: 'video',
+      title: 'Tide pools',
+      url: 'https://example.com/tide-pools',
+      description: 'Where the sea stays',
+      page_age: '2026-09-01T00:00:00',
+      profile_name: 'duckduckgo',
+      site_name: 'example.com'
+    });
+    assert.deepEqual(response.results[2], {
+      type: 'video',
+      title: '',
+      url: 'not a url',
+      description: '',
+      page_age: undefined,
+      profile_name: undefined,
+      site_name: undefined
+    });
+  });
+
+  it('limits the results to the count and serves repeated searches from the cache', async () => {
+    requests.length = 0;
+    const first = await providers.searxng.searchWithSearxng({ q: 'tide pools', count: 2 }, baseUrl);
+    const second = await providers.searxng.searchWithSearxng({ q: 'tide pools', count: 1 }, baseUrl);
+
+    assert.equal(first.results.length, 2);
+    assert.equal(second.results.length, 1);
+    assert.equal(requests.length, 1);
+  });
+
+  it('fails on error statuses', async () => {
+    status = 403;
+    try {
+      await assert.rejects(providers.searxng.searchWithSearxng({ q: 'tide pools', cache: 'refresh' }, baseUrl), /SearXNG error: 403/);
+    } finally {
+      status = 200;
+    }
+  });
+});
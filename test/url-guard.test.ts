@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkUrl, isPrivateAddress } from '../src/utils/url-guard.js';
+
+describe('isPrivateAddress', () => {
+  const cases: Array<[string, boolean]> = [
+    ['8.8.8.8', false],
+    ['127.0.0.1', true],
+    ['10.1.2.3', true],
+    ['169.254.169.254', true],
+    // IETF protocol assignments and the documentation ranges, but not their neighbours
+    ['192.0.0.8', true],
+    ['192.0.1.1', false],
+    ['192.0.2.255', true],
+    ['192.0.3.0', false],
+    ['198.51.99.255', false],
+    ['198.51.100.0', true],
+    ['198.51.101.0', false],
+    ['203.0.112.255', false],
+    ['203.0.113.7', true],
+    ['203.0.114.0', false],
+    ['2606:4700:4700::1111', false],
+    ['::', true],
+    ['::1', true],
+    ['fd00::1', true],
+    ['fe80::1', true],
+    ['ff02::1', true],
+    ['2001:db8::1', true],
+    // IPv4-mapped, in both notations
+    ['::ffff:127.0.0.1', true],
+    ['::ffff:7f00:1', true],
+    ['::ffff:a9fe:a9fe', true],
+    ['::ffff:808:808', false],
+    ['0:0:0:0:0:ffff:a9fe:a9fe', true],
+    // IPv4-compatible
+    ['::a9fe:a9fe', true],
+    ['::808:808', false],
+    // NAT64
+    ['64:ff9b::169.254.169.254', true],
+    ['64:ff9b::a9fe:a9fe', true],
+    ['64:ff9b::808:808', false],
+    ['64:ff9b:1::808:808', true],
+    // 6to4
+    ['2002:a9fe:a9fe::1', true],
+    ['2002:808:808::1', false],
+    ['not an address', true]
+  ];
+
+  for (const [address, expected] of cases) {
+    it(`${expected ? 'blocks' : 'allows'} ${address}`, () => {
+      assert.equal(isPrivateAddress(address), expected);
+    });
+  }
+});
+
+describe('checkUrl', () => {
+  const blocked = [
+    'http://[::ffff:a9fe:a9fe]/',
+    'http://[::ffff:169.254.169.254]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[64:ff9b::169.254.169.254]/',
+    'http://[::127.0.0.1]/',
+    'http://[::]/',
+    'http://[::1]/',
+    'http://127.0.0.1/',
+    'http://0x7f000001/'
+  ];
+
+  for (const url of blocked) {
+    it(`blocks ${url}`, async () => {
+      assert.ok(await checkUrl(url), `${url} was allowed`);
+    });
+  }
+
+  it('allows public IP literals', async () => {
+    assert.equal(await checkUrl('http://8.8.8.8/'), undefined);
+    assert.equal(await checkUrl('https://[2606:4700:4700::1111]/'), undefined);
+  });
+
+  it('checks IP addresses but does not resolve host names without resolve', async () => {
+    assert.ok(await checkUrl('http://127.0.0.1/', { resolve: false }));
+    assert.equal(await checkUrl('http://unresolvable.invalid/', { resolve: false }), undefined);
+    assert.ok(await checkUrl('http://unresolvable.invalid/'));
+  });
+
+  it('blocks other schemes and ports', async () => {
+    assert.ok(await checkUrl('file:///etc/passwd'));
+    assert.ok(await checkUrl('http://8.8.8.8:22/'));
+  });
+});